@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Bot, Check, ChevronDown, Loader2, Search } from "lucide-react";
+import type { Assistant } from "@langchain/langgraph-sdk";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useAssistants } from "@/app/hooks/useAssistants";
+
+const PAGE_SIZE = 20;
+
+function formatMetadataValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+interface AssistantPickerProps {
+  assistant: Assistant | null;
+  onSelect: (assistant: Assistant) => void;
+}
+
+export function AssistantPicker({ assistant, onSelect }: AssistantPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const assistants = useAssistants({
+    graphId: open ? assistant?.graph_id : undefined,
+    name: debouncedQuery,
+    limit: PAGE_SIZE,
+  });
+
+  const flattened = useMemo(() => {
+    return assistants.data?.flat() ?? [];
+  }, [assistants.data]);
+
+  const isLoadingMore =
+    assistants.size > 0 && assistants.data?.[assistants.size - 1] == null;
+  const isEmpty = assistants.data?.at(0)?.length === 0;
+  const isReachingEnd =
+    isEmpty || (assistants.data?.at(-1)?.length ?? 0) < PAGE_SIZE;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={!assistant}
+        className="text-sm font-normal text-muted-foreground"
+      >
+        <span className="font-medium">Assistant:</span>
+        <span className="max-w-[240px] truncate">
+          {assistant?.name ?? "Loading..."}
+        </span>
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Dialog
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Select Assistant</DialogTitle>
+            <DialogDescription>
+              Assistants configured for graph{" "}
+              <span className="font-mono">{assistant?.graph_id}</span>
+            </DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by name..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <ScrollArea className="h-[420px]">
+            {assistants.error && (
+              <p className="p-4 text-center text-sm text-destructive">
+                Failed to load assistants: {assistants.error.message}
+              </p>
+            )}
+
+            {!assistants.error && !assistants.data && assistants.isLoading && (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton
+                    key={i}
+                    className="h-16 w-full"
+                  />
+                ))}
+              </div>
+            )}
+
+            {!assistants.error && !assistants.isLoading && isEmpty && (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                No assistants found
+              </p>
+            )}
+
+            {!assistants.error && !isEmpty && (
+              <div className="flex flex-col gap-1 pr-3">
+                {flattened.map((item) => {
+                  const isActive =
+                    item.assistant_id === assistant?.assistant_id;
+                  const metadataEntries = Object.entries(item.metadata ?? {});
+                  return (
+                    <button
+                      key={item.assistant_id}
+                      type="button"
+                      onClick={() => {
+                        onSelect(item);
+                        setOpen(false);
+                      }}
+                      className={cn(
+                        "grid w-full grid-cols-[auto_1fr_auto] items-start gap-3 rounded-lg border px-3 py-3 text-left transition-colors hover:bg-accent",
+                        isActive
+                          ? "border-primary bg-accent"
+                          : "border-transparent"
+                      )}
+                      aria-current={isActive}
+                    >
+                      <Bot className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate text-sm font-semibold">
+                            {item.name}
+                          </span>
+                          <span className="shrink-0 rounded bg-muted px-1.5 text-[10px] font-medium text-muted-foreground">
+                            v{item.version}
+                          </span>
+                        </div>
+                        <p className="truncate font-mono text-xs text-muted-foreground">
+                          {item.assistant_id}
+                        </p>
+                        {metadataEntries.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {metadataEntries.map(([key, value]) => (
+                              <span
+                                key={key}
+                                className="max-w-full truncate rounded border border-border px-1.5 text-[10px] text-muted-foreground"
+                              >
+                                {key}: {formatMetadataValue(value)}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(item.updated_at), "MM/dd/yyyy")}
+                        </span>
+                        {isActive && <Check className="h-4 w-4" />}
+                      </div>
+                    </button>
+                  );
+                })}
+
+                {!isReachingEnd && (
+                  <div className="flex justify-center py-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => assistants.setSize(assistants.size + 1)}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        "Load More"
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
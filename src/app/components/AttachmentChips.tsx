@@ -0,0 +1,141 @@
+"use client";
+
+import React from "react";
+import {
+  FileText,
+  FileType,
+  HardDrive,
+  MessageSquareText,
+  X,
+} from "lucide-react";
+import type { Attachment, DisplayAttachment } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function AttachmentIcon({ kind }: { kind: DisplayAttachment["kind"] }) {
+  return kind === "pdf" ? (
+    <FileType
+      size={14}
+      className="shrink-0 text-red-500"
+    />
+  ) : (
+    <FileText
+      size={14}
+      className="shrink-0 text-muted-foreground"
+    />
+  );
+}
+
+interface ComposerAttachmentsProps {
+  attachments: Attachment[];
+  onRemove: (id: string) => void;
+  onToggleMode: (id: string) => void;
+}
+
+export const ComposerAttachments = React.memo<ComposerAttachmentsProps>(
+  ({ attachments, onRemove, onToggleMode }) => {
+    if (attachments.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2 px-[18px] pt-3">
+        {attachments.map((attachment) => (
+          <div
+            key={attachment.id}
+            className="flex h-10 max-w-[240px] items-center gap-2 rounded-md border border-border bg-muted/40 pl-1 pr-1 text-xs"
+          >
+            {attachment.kind === "image" ? (
+              <img
+                src={`data:${attachment.mimeType};base64,${attachment.data}`}
+                alt={attachment.name}
+                className="h-8 w-8 shrink-0 rounded-sm object-cover"
+              />
+            ) : (
+              <span className="pl-1">
+                <AttachmentIcon kind={attachment.kind} />
+              </span>
+            )}
+            <div className="min-w-0">
+              <p className="truncate font-medium">{attachment.name}</p>
+              <p className="text-muted-foreground">
+                {formatSize(attachment.size)}
+              </p>
+            </div>
+            {attachment.kind === "text" && (
+              <button
+                type="button"
+                onClick={() => onToggleMode(attachment.id)}
+                className="shrink-0 rounded-sm p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+                title={
+                  attachment.mode === "inline"
+                    ? "Sent inline in the message. Click to write it to files instead."
+                    : "Written to files state. Click to send it inline instead."
+                }
+                aria-label={`Send ${attachment.name} ${
+                  attachment.mode === "inline" ? "as a file" : "inline"
+                }`}
+              >
+                {attachment.mode === "inline" ? (
+                  <MessageSquareText size={14} />
+                ) : (
+                  <HardDrive size={14} />
+                )}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              className="shrink-0 rounded-sm p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+);
+
+ComposerAttachments.displayName = "ComposerAttachments";
+
+interface MessageAttachmentsProps {
+  attachments: DisplayAttachment[];
+  className?: string;
+}
+
+export const MessageAttachments = React.memo<MessageAttachmentsProps>(
+  ({ attachments, className }) => {
+    if (attachments.length === 0) return null;
+
+    return (
+      <div className={cn("flex flex-wrap justify-end gap-2", className)}>
+        {attachments.map((attachment, index) =>
+          attachment.kind === "image" && attachment.src ? (
+            <img
+              key={index}
+              src={attachment.src}
+              alt={attachment.name}
+              title={attachment.name}
+              className="h-24 max-w-[200px] rounded-md border border-border object-cover"
+            />
+          ) : (
+            <span
+              key={index}
+              className="inline-flex max-w-[240px] items-center gap-1.5 rounded-md border border-border bg-muted/40 px-2 py-1 text-xs"
+            >
+              <AttachmentIcon kind={attachment.kind} />
+              <span className="truncate">{attachment.name}</span>
+            </span>
+          )
+        )}
+      </div>
+    );
+  }
+);
+
+MessageAttachments.displayName = "MessageAttachments";
@@ -10,6 +10,13 @@ import React, {
   Fragment,
 } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Square,
   ArrowUp,
@@ -17,9 +24,13 @@ import {
   Clock,
   Circle,
   FileIcon,
+  SlidersHorizontal,
+  Paperclip,
 } from "lucide-react";
+import { toast } from "sonner";
 import { ChatMessage } from "@/app/components/ChatMessage";
 import type {
+  RunCancelAction,
   TodoItem,
   ToolCall,
   ActionRequest,
@@ -27,13 +38,54 @@ import type {
   QuestionsInterruptData,
 } from "@/app/types/types";
 import { Assistant, Message } from "@langchain/langgraph-sdk";
-import { extractStringFromMessageContent } from "@/app/utils/utils";
+import {
+  buildSummaryPrompt,
+  extractStringFromMessageContent,
+  getSourceNode,
+  isToolMessageError,
+} from "@/app/utils/utils";
 import { useChatContext } from "@/providers/ChatProvider";
 import { cn } from "@/lib/utils";
 import { useStickToBottom } from "use-stick-to-bottom";
+import { useQueryState } from "nuqs";
 import { FilesPopover } from "@/app/components/TasksFilesSidebar";
+import { TodoHistory } from "@/app/components/TodoHistory";
 import { QuestionsPanel } from "@/app/components/QuestionsPanel";
 import { useQuestions } from "@/app/hooks/useQuestions";
+import { RunSettingsDialog } from "@/app/components/RunSettingsDialog";
+import { DebugToolbar } from "@/app/components/DebugToolbar";
+import { StreamErrorBanner } from "@/app/components/StreamErrorBanner";
+import { Switch } from "@/components/ui/switch";
+import { ComposerAttachments } from "@/app/components/AttachmentChips";
+import { QueuedMessages } from "@/app/components/QueuedMessages";
+import { StopRunDialog } from "@/app/components/StopRunDialog";
+import {
+  ContextLimitWarning,
+  ContextMeter,
+} from "@/app/components/ContextMeter";
+import { useContextSettings } from "@/app/hooks/useContextSettings";
+import { FALLBACK_CONTEXT_LIMIT, getContextUsage } from "@/lib/contextWindow";
+import { readAttachment, type Attachment } from "@/lib/attachments";
+import {
+  getMessageUsage,
+  summarizeUsage,
+  type UsageByModel,
+} from "@/lib/usage";
+
+const ATTACHMENT_ACCEPT =
+  "image/*,application/pdf,text/*,.md,.json,.jsonl,.csv,.yaml,.yml,.py,.ts,.tsx,.js,.sql";
+
+// What Send does while a run is active. The client only starts a new stream
+// once the current one ends, so queued and held messages stay in the browser;
+// interrupt and rollback cancel the run on the server first.
+type RunSendMode = "queue" | RunCancelAction | "hold";
+
+const RUN_SEND_MODES: { value: RunSendMode; label: string }[] = [
+  { value: "queue", label: "Queue after run" },
+  { value: "interrupt", label: "Interrupt run" },
+  { value: "rollback", label: "Roll back run" },
+  { value: "hold", label: "Don't send" },
+];
 
 interface ChatInterfaceProps {
   assistant: Assistant | null;
@@ -66,12 +118,20 @@ const getStatusIcon = (status: TodoItem["status"], className?: string) => {
 };
 
 export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
-  const [metaOpen, setMetaOpen] = useState<"tasks" | "files" | null>(null);
+  const [metaOpen, setMetaOpen] = useState<
+    "tasks" | "history" | "files" | null
+  >(null);
+  const [runSettingsOpen, setRunSettingsOpen] = useState(false);
   const tasksContainerRef = useRef<HTMLDivElement | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const [input, setInput] = useState("");
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { scrollRef, contentRef } = useStickToBottom();
+  // Set by clicking a node in the graph panel
+  const [nodeFilter, setNodeFilter] = useQueryState("node");
 
   const {
     stream,
@@ -84,14 +144,40 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
     isThreadLoading,
     interrupt,
     sendMessage,
-    stopStream,
+    queuedMessages,
+    enqueueMessage,
+    updateQueuedMessage,
+    cancelQueuedMessage,
+    queueHeld,
+    releaseQueue,
+    redirectRun,
+    editMessage,
+    regenerateMessage,
+    rerunSubagent,
+    setBranch,
     resumeInterrupt,
     getMessagesMetadata,
     subagentMessageIds,
-    subagentMessages,
+    getSubagentMessages,
+    subagentRuns,
+    messageNodes,
+    runSettings,
+    setRunSettings,
+    debugMode,
+    setDebugMode,
+    forkWithoutHistory,
   } = useChatContext();
 
-  const submitDisabled = isLoading || !assistant;
+  const runSettingsOverrideCount =
+    (runSettings.recursionLimit !== undefined ? 1 : 0) +
+    Object.keys(runSettings.configurable).length +
+    Object.keys(runSettings.context).length;
+
+  const [stopDialogOpen, setStopDialogOpen] = useState(false);
+  // What sending does while a run is active
+  const [runSendMode, setRunSendMode] = useState<RunSendMode>("queue");
+
+  const submitDisabled = !assistant;
 
   // Questions handling
   const {
@@ -144,11 +230,71 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
         e.preventDefault();
       }
       const messageText = input.trim();
-      if (!messageText || isLoading || submitDisabled) return;
-      sendMessage(messageText);
+      if ((!messageText && attachments.length === 0) || submitDisabled) return;
+      if (!isLoading) {
+        sendMessage(messageText, attachments);
+      } else if (runSendMode === "hold") {
+        toast.error("A run is in progress, so the message was not sent");
+        return;
+      } else if (runSendMode === "queue") {
+        enqueueMessage(messageText, attachments);
+      } else {
+        redirectRun(messageText, attachments, runSendMode).catch((error) =>
+          toast.error(`Failed to stop the current run: ${error}`)
+        );
+      }
       setInput("");
+      setAttachments([]);
     },
-    [input, isLoading, sendMessage, setInput, submitDisabled]
+    [
+      input,
+      attachments,
+      isLoading,
+      runSendMode,
+      sendMessage,
+      enqueueMessage,
+      redirectRun,
+      setInput,
+      submitDisabled,
+    ]
+  );
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readAttachment));
+    const added = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : []
+    );
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        toast.error(
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason)
+        );
+      }
+    });
+    if (added.length > 0) setAttachments((prev) => [...prev, ...added]);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      if (e.dataTransfer.files.length > 0) {
+        addFiles(Array.from(e.dataTransfer.files));
+      }
+    },
+    [addFiles]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const pastedFiles = Array.from(e.clipboardData.files);
+      if (pastedFiles.length === 0) return;
+      e.preventDefault();
+      addFiles(pastedFiles);
+    },
+    [addFiles]
   );
 
   const handleKeyDown = useCallback(
@@ -261,7 +407,9 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
           }
           data.toolCalls[toolCallIndex] = {
             ...data.toolCalls[toolCallIndex],
-            status: "completed" as const,
+            status: isToolMessageError(message)
+              ? ("error" as const)
+              : ("completed" as const),
             result: extractStringFromMessageContent(message),
           };
           break;
@@ -283,6 +431,94 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
     });
   }, [messages, interrupt, subagentMessageIds]);
 
+  const visibleMessages = useMemo(() => {
+    if (!nodeFilter) return processedMessages;
+    // Top-level messages are attributed to the subgraph's parent node
+    const targetNode = nodeFilter.split(":")[0];
+    const getNode = (message: Message) =>
+      (message.id && messageNodes.current.get(message.id)) ||
+      getSourceNode(
+        getMessagesMetadata(message)?.firstSeenState,
+        stream.history
+      );
+
+    const toolCallNodes = new Map<string, string | undefined>();
+    messages.forEach((message) => {
+      if (message.type === "tool" && message.tool_call_id) {
+        toolCallNodes.set(message.tool_call_id, getNode(message));
+      }
+    });
+
+    return processedMessages.filter(
+      (data) =>
+        getNode(data.message) === targetNode ||
+        data.toolCalls.some((tc) => toolCallNodes.get(tc.id) === targetNode)
+    );
+  }, [
+    nodeFilter,
+    processedMessages,
+    messages,
+    messageNodes,
+    getMessagesMetadata,
+    stream.history,
+  ]);
+
+  // A run spans the messages between two human messages; its total is shown
+  // under the last top-level AI message when it made more than one model call
+  const runUsageByMessageId = useMemo(() => {
+    const topLevelIds = new Set(processedMessages.map((d) => d.message.id));
+    const result = new Map<string, UsageByModel>();
+    const runs: Message[][] = [[]];
+    messages.forEach((message) => {
+      if (message.type === "human") runs.push([]);
+      runs[runs.length - 1].push(message);
+    });
+    runs.forEach((run) => {
+      const lastAiId = run.findLast(
+        (m) => m.type === "ai" && m.id && topLevelIds.has(m.id)
+      )?.id;
+      const callCount = run.filter((m) => getMessageUsage(m)).length;
+      if (lastAiId && callCount > 1) {
+        result.set(lastAiId, summarizeUsage(run));
+      }
+    });
+    return result;
+  }, [messages, processedMessages]);
+
+  const topLevelMessages = useMemo(
+    () =>
+      messages.filter(
+        (message: Message) =>
+          !(message as any).additional_kwargs?.is_subagent &&
+          !(message.id && subagentMessageIds.current.has(message.id))
+      ),
+    [messages, subagentMessageIds]
+  );
+
+  const { contextSettings } = useContextSettings();
+  const contextUsage = useMemo(
+    () => getContextUsage(topLevelMessages, contextSettings),
+    [topLevelMessages, contextSettings]
+  );
+
+  const [isForkingWithTranscript, setIsForkingWithTranscript] = useState(false);
+  const handleForkWithTranscript = useCallback(async () => {
+    const prompt = buildSummaryPrompt(
+      topLevelMessages,
+      contextUsage?.limitTokens ?? FALLBACK_CONTEXT_LIMIT
+    );
+    setIsForkingWithTranscript(true);
+    try {
+      await forkWithoutHistory();
+      setInput(prompt);
+      textareaRef.current?.focus();
+    } catch (error) {
+      toast.error(`Failed to fork thread: ${error}`);
+    } finally {
+      setIsForkingWithTranscript(false);
+    }
+  }, [topLevelMessages, contextUsage, forkWithoutHistory]);
+
   const groupedTodos = {
     in_progress: todos.filter((t) => t.status === "in_progress"),
     pending: todos.filter((t) => t.status === "pending"),
@@ -325,11 +561,28 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
             </div>
           ) : (
             <>
-              {processedMessages.map((data, index) => {
+              {nodeFilter && (
+                <div className="sticky top-0 z-10 flex items-center justify-between gap-2 rounded-md border border-border bg-accent px-3 py-2 text-xs">
+                  <span className="truncate">
+                    Showing messages from node{" "}
+                    <span className="font-mono">{nodeFilter}</span>
+                    {visibleMessages.length === 0 && " (none yet)"}
+                  </span>
+                  <button
+                    type="button"
+                    className="shrink-0 font-medium hover:underline"
+                    onClick={() => setNodeFilter(null)}
+                  >
+                    Clear filter
+                  </button>
+                </div>
+              )}
+              {visibleMessages.map((data) => {
                 const messageUi = ui?.filter(
                   (u: any) => u.metadata?.message_id === data.message.id
                 );
-                const isLastMessage = index === processedMessages.length - 1;
+                const isLastMessage = data === processedMessages.at(-1);
+                const meta = getMessagesMetadata(data.message);
                 return (
                   <ChatMessage
                     key={data.message.id}
@@ -346,16 +599,56 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
                     stream={stream}
                     onResumeInterrupt={resumeInterrupt}
                     graphId={assistant?.graph_id}
-                    subagentMessages={subagentMessages.current}
+                    getSubagentMessages={getSubagentMessages}
+                    subagentRuns={subagentRuns}
+                    runUsage={
+                      data.message.id
+                        ? runUsageByMessageId.get(data.message.id)
+                        : undefined
+                    }
+                    branch={meta?.branch}
+                    branchOptions={meta?.branchOptions}
+                    onSelectBranch={setBranch}
+                    onEdit={
+                      meta?.firstSeenState?.parent_checkpoint
+                        ? (content) =>
+                            editMessage(data.message, content).catch((error) =>
+                              toast.error(
+                                `Failed to edit the message: ${error}`
+                              )
+                            )
+                        : undefined
+                    }
+                    onRegenerate={
+                      meta?.firstSeenState?.parent_checkpoint
+                        ? () =>
+                            regenerateMessage(data.message).catch((error) =>
+                              toast.error(
+                                `Failed to regenerate the response: ${error}`
+                              )
+                            )
+                        : undefined
+                    }
+                    onRerunSubagent={
+                      meta?.firstSeenState ? rerunSubagent : undefined
+                    }
                   />
                 );
               })}
+              <StreamErrorBanner />
             </>
           )}
         </div>
       </div>
 
       <div className="flex-shrink-0 bg-background">
+        <DebugToolbar />
+        <ContextLimitWarning
+          usage={contextUsage}
+          onForkWithTranscript={handleForkWithTranscript}
+          isForking={isForkingWithTranscript}
+        />
+
         {/* Questions Panel - shown when agent has pending questions */}
         {pendingQuestions.length > 0 && (
           <div className="mx-auto mb-4 w-[calc(100%-32px)] max-w-[1024px] px-4">
@@ -374,8 +667,20 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
         <div
           className={cn(
             "mx-4 mb-6 flex flex-shrink-0 flex-col overflow-hidden rounded-xl border border-border bg-background",
-            "mx-auto w-[calc(100%-32px)] max-w-[1024px] transition-colors duration-200 ease-in-out"
+            "mx-auto w-[calc(100%-32px)] max-w-[1024px] transition-colors duration-200 ease-in-out",
+            isDraggingFiles && "border-dashed border-primary bg-accent/40"
           )}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setIsDraggingFiles(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+              setIsDraggingFiles(false);
+            }
+          }}
+          onDrop={handleDrop}
         >
           {(hasTasks || hasFiles) && (
             <div className="flex max-h-72 flex-col overflow-y-auto border-b border-border bg-sidebar empty:hidden">
@@ -511,6 +816,20 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
                         Tasks
                       </button>
                     )}
+                    {hasTasks && (
+                      <button
+                        type="button"
+                        className="py-3 pr-4 first:pl-[18px] aria-expanded:font-semibold"
+                        onClick={() =>
+                          setMetaOpen((prev) =>
+                            prev === "history" ? null : "history"
+                          )
+                        }
+                        aria-expanded={metaOpen === "history"}
+                      >
+                        Plan history
+                      </button>
+                    )}
                     {hasFiles && (
                       <button
                         type="button"
@@ -568,6 +887,8 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
                           </div>
                         ))}
 
+                    {metaOpen === "history" && <TodoHistory />}
+
                     {metaOpen === "files" && (
                       <div className="mb-6">
                         <FilesPopover
@@ -588,40 +909,159 @@ export const ChatInterface = React.memo<ChatInterfaceProps>(({ assistant }) => {
             onSubmit={handleSubmit}
             className="flex flex-col"
           >
+            <QueuedMessages
+              queuedMessages={queuedMessages}
+              held={queueHeld}
+              onUpdate={updateQueuedMessage}
+              onCancel={cancelQueuedMessage}
+              onRelease={releaseQueue}
+            />
+            <ComposerAttachments
+              attachments={attachments}
+              onRemove={(id) =>
+                setAttachments((prev) => prev.filter((a) => a.id !== id))
+              }
+              onToggleMode={(id) =>
+                setAttachments((prev) =>
+                  prev.map((a) =>
+                    a.id === id
+                      ? { ...a, mode: a.mode === "inline" ? "file" : "inline" }
+                      : a
+                  )
+                )
+              }
+            />
             <textarea
               ref={textareaRef}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder={isLoading ? "Running..." : "Write your message..."}
               className="font-inherit field-sizing-content flex-1 resize-none border-0 bg-transparent px-[18px] pb-[13px] pt-[14px] text-sm leading-7 text-primary outline-none placeholder:text-tertiary"
               rows={1}
             />
             <div className="flex justify-between gap-2 p-3">
-              <div className="flex justify-end gap-2">
+              <div className="flex items-center gap-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files) addFiles(Array.from(e.target.files));
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="h-8 w-8 text-muted-foreground"
+                  aria-label="Attach files"
+                  title="Attach images, PDFs or text files"
+                >
+                  <Paperclip size={16} />
+                </Button>
                 <Button
-                  type={isLoading ? "button" : "submit"}
-                  variant={isLoading ? "destructive" : "default"}
-                  onClick={isLoading ? stopStream : handleSubmit}
-                  disabled={!isLoading && (submitDisabled || !input.trim())}
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRunSettingsOpen(true)}
+                  disabled={!assistant}
+                  className="text-muted-foreground"
                 >
-                  {isLoading ? (
-                    <>
-                      <Square size={14} />
-                      <span>Stop</span>
-                    </>
-                  ) : (
-                    <>
-                      <ArrowUp size={18} />
-                      <span>Send</span>
-                    </>
+                  <SlidersHorizontal size={14} />
+                  <span>Run settings</span>
+                  {runSettingsOverrideCount > 0 && (
+                    <span className="h-4 min-w-4 rounded-full bg-[#2F6868] px-1 text-center text-[10px] leading-[16px] text-white">
+                      {runSettingsOverrideCount}
+                    </span>
                   )}
                 </Button>
+                <label
+                  className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground"
+                  title="Pause before every tool call"
+                >
+                  <Switch
+                    checked={debugMode}
+                    onCheckedChange={setDebugMode}
+                  />
+                  Debug Mode
+                </label>
+                <ContextMeter
+                  usage={contextUsage}
+                  onForkWithTranscript={handleForkWithTranscript}
+                  isForking={isForkingWithTranscript}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                {isLoading && (
+                  <Select
+                    value={runSendMode}
+                    onValueChange={(value) =>
+                      setRunSendMode(value as RunSendMode)
+                    }
+                  >
+                    <SelectTrigger
+                      className="h-9 w-fit text-xs"
+                      aria-label="When sending during a run"
+                      title="What sending does while a run is active"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                      {RUN_SEND_MODES.map((option) => (
+                        <SelectItem
+                          key={option.value}
+                          value={option.value}
+                        >
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {isLoading && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() => setStopDialogOpen(true)}
+                  >
+                    <Square size={14} />
+                    <span>Stop</span>
+                  </Button>
+                )}
+                {(!isLoading || input.trim() || attachments.length > 0) && (
+                  <Button
+                    type="submit"
+                    disabled={
+                      submitDisabled ||
+                      (!input.trim() && attachments.length === 0)
+                    }
+                  >
+                    <ArrowUp size={18} />
+                    <span>Send</span>
+                  </Button>
+                )}
               </div>
             </div>
           </form>
         </div>
       </div>
+      <StopRunDialog
+        open={stopDialogOpen}
+        onOpenChange={setStopDialogOpen}
+      />
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        assistant={assistant}
+        settings={runSettings}
+        onSave={setRunSettings}
+      />
     </div>
   );
 });
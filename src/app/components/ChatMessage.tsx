@@ -1,22 +1,36 @@
 "use client";
 
-import React, { useMemo, useState, useCallback } from "react";
-import { SubAgentIndicator } from "@/app/components/SubAgentIndicator";
+import React, { useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  Pencil,
+  RefreshCw,
+  Rows3,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  SubAgentCard,
+  type GetSubagentMessages,
+} from "@/app/components/SubAgentCard";
+import { SubAgentLanes } from "@/app/components/SubAgentLanes";
 import { ToolCallBox } from "@/app/components/ToolCallBox";
-import { MarkdownContent } from "@/app/components/MarkdownContent";
-import type {
-  SubAgent,
-  ToolCall,
-  ActionRequest,
-  ReviewConfig,
-} from "@/app/types/types";
+import { MessageContentBlocks } from "@/app/components/MessageContentBlocks";
+import type { ToolCall, ActionRequest, ReviewConfig } from "@/app/types/types";
 import { Message } from "@langchain/langgraph-sdk";
 import {
-  extractSubAgentContent,
   extractStringFromMessageContent,
+  getMessageContentBlocks,
+  getSubAgents,
 } from "@/app/utils/utils";
 import { cn } from "@/lib/utils";
-import { ToolApprovalInterrupt } from "@/app/components/ToolApprovalInterrupt";
+import { MessageAttachments } from "@/app/components/AttachmentChips";
+import { splitHumanContent } from "@/lib/attachments";
+import { summarizeUsage, type UsageByModel } from "@/lib/usage";
+import type { SubagentRuns } from "@/lib/subagents";
+import { UsageLine } from "@/app/components/UsageSummary";
+import { useSubagentLayout } from "@/app/hooks/useSubagentLayout";
 
 interface ChatMessageProps {
   message: Message;
@@ -28,7 +42,58 @@ interface ChatMessageProps {
   stream?: any;
   onResumeInterrupt?: (value: any) => void;
   graphId?: string;
-  subagentMessages?: Map<string, any[]>;
+  getSubagentMessages?: GetSubagentMessages;
+  subagentRuns?: SubagentRuns;
+  branch?: string;
+  branchOptions?: string[];
+  onSelectBranch?: (branch: string) => void;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  onRerunSubagent?: (toolCallId: string, description: string) => Promise<void>;
+  runUsage?: UsageByModel;
+}
+
+function BranchSwitcher({
+  branch,
+  branchOptions,
+  onSelect,
+  isLoading,
+}: {
+  branch: string | undefined;
+  branchOptions: string[];
+  onSelect: (branch: string) => void;
+  isLoading?: boolean;
+}) {
+  const index = branch ? branchOptions.indexOf(branch) : -1;
+  if (index === -1 || branchOptions.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSelect(branchOptions[index - 1])}
+        disabled={isLoading || index === 0}
+        aria-label="Previous branch"
+      >
+        <ChevronLeft size={14} />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1} / {branchOptions.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSelect(branchOptions[index + 1])}
+        disabled={isLoading || index === branchOptions.length - 1}
+        aria-label="Next branch"
+      >
+        <ChevronRight size={14} />
+      </Button>
+    </div>
+  );
 }
 
 export const ChatMessage = React.memo<ChatMessageProps>(
@@ -42,50 +107,62 @@ export const ChatMessage = React.memo<ChatMessageProps>(
     stream,
     onResumeInterrupt,
     graphId,
-    subagentMessages,
+    getSubagentMessages,
+    subagentRuns,
+    branch,
+    branchOptions,
+    onSelectBranch,
+    onEdit,
+    onRegenerate,
+    onRerunSubagent,
+    runUsage,
   }) => {
     const isUser = message.type === "human";
-    const messageContent = extractStringFromMessageContent(message);
-    const hasContent = messageContent && messageContent.trim() !== "";
+    const humanContent = useMemo(
+      () => (isUser ? splitHumanContent(message) : null),
+      [isUser, message]
+    );
+    const messageContent = humanContent
+      ? humanContent.text
+      : extractStringFromMessageContent(message);
+    const contentBlocks = useMemo(
+      () => (isUser ? [] : getMessageContentBlocks(message)),
+      [isUser, message]
+    );
+    const messageUsage = useMemo(
+      () => (isUser ? {} : summarizeUsage([message])),
+      [isUser, message]
+    );
+    const hasContent = isUser
+      ? messageContent.trim() !== ""
+      : contentBlocks.length > 0;
     const hasToolCalls = toolCalls.length > 0;
-    const subAgents = useMemo(() => {
-      return toolCalls
-        .filter((toolCall: ToolCall) => {
-          return (
-            toolCall.name === "task" &&
-            toolCall.args["subagent_type"] &&
-            toolCall.args["subagent_type"] !== "" &&
-            toolCall.args["subagent_type"] !== null
-          );
-        })
-        .map((toolCall: ToolCall) => {
-          const subagentType = (toolCall.args as Record<string, unknown>)[
-            "subagent_type"
-          ] as string;
-          return {
-            id: toolCall.id,
-            name: toolCall.name,
-            subAgentName: subagentType,
-            input: toolCall.args,
-            output: toolCall.result ? { result: toolCall.result } : undefined,
-            status: toolCall.status,
-          } as SubAgent;
-        });
-    }, [toolCalls]);
-
-    const [expandedSubAgents, setExpandedSubAgents] = useState<
-      Record<string, boolean>
-    >({});
-    const isSubAgentExpanded = useCallback(
-      (id: string) => expandedSubAgents[id] ?? true,
-      [expandedSubAgents]
+    const subAgents = useMemo(
+      () => getSubAgents(toolCalls, subagentRuns),
+      [toolCalls, subagentRuns]
     );
-    const toggleSubAgent = useCallback((id: string) => {
-      setExpandedSubAgents((prev) => ({
-        ...prev,
-        [id]: prev[id] === undefined ? false : !prev[id],
-      }));
-    }, []);
+    const { subagentLayout, setSubagentLayout } = useSubagentLayout();
+    const showLanes = subagentLayout === "lanes" && subAgents.length > 1;
+
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState("");
+
+    const startEditing = () => {
+      setDraft(messageContent);
+      setIsEditing(true);
+    };
+
+    const submitEdit = () => {
+      const content = draft.trim();
+      if (!content || !onEdit) return;
+      setIsEditing(false);
+      if (content !== messageContent.trim()) onEdit(content);
+    };
+
+    const hasBranches =
+      !!onSelectBranch && !!branchOptions && branchOptions.length > 1;
+    const hasActions =
+      hasBranches || (isUser && !!onEdit) || (!isUser && !!onRegenerate);
 
     return (
       <div
@@ -100,7 +177,40 @@ export const ChatMessage = React.memo<ChatMessageProps>(
             isUser ? "max-w-[70%]" : "w-full"
           )}
         >
-          {hasContent && (
+          {isEditing ? (
+            <div className="mt-4 flex flex-col gap-2 rounded-xl border border-border p-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  }
+                  if (e.key === "Escape") setIsEditing(false);
+                }}
+                autoFocus
+                rows={Math.min(8, Math.max(2, draft.split("\n").length))}
+                className="w-full min-w-[320px] resize-none bg-transparent px-1 text-sm leading-relaxed outline-none"
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setIsEditing(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={submitEdit}
+                  disabled={!draft.trim() || isLoading}
+                >
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : hasContent ? (
             <div className={cn("relative flex items-end gap-0")}>
               <div
                 className={cn(
@@ -119,11 +229,58 @@ export const ChatMessage = React.memo<ChatMessageProps>(
                   <p className="m-0 whitespace-pre-wrap break-words text-sm leading-relaxed">
                     {messageContent}
                   </p>
-                ) : hasContent ? (
-                  <MarkdownContent content={messageContent} />
-                ) : null}
+                ) : (
+                  <MessageContentBlocks blocks={contentBlocks} />
+                )}
               </div>
             </div>
+          ) : null}
+          {!isEditing && humanContent && (
+            <MessageAttachments
+              attachments={humanContent.attachments}
+              className={hasContent ? "mt-2" : "mt-4"}
+            />
+          )}
+          {!isEditing && hasActions && (
+            <div
+              className={cn(
+                "mt-1 flex items-center gap-1",
+                isUser && "justify-end"
+              )}
+            >
+              {onSelectBranch && branchOptions && (
+                <BranchSwitcher
+                  branch={branch}
+                  branchOptions={branchOptions}
+                  onSelect={onSelectBranch}
+                  isLoading={isLoading}
+                />
+              )}
+              {isUser && onEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground"
+                  onClick={startEditing}
+                  disabled={isLoading}
+                  aria-label="Edit message"
+                >
+                  <Pencil size={12} />
+                </Button>
+              )}
+              {!isUser && onRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground"
+                  onClick={onRegenerate}
+                  disabled={isLoading}
+                  aria-label="Regenerate response"
+                >
+                  <RefreshCw size={12} />
+                </Button>
+              )}
+            </div>
           )}
           {hasToolCalls && (
             <div className="mt-4 flex w-full flex-col">
@@ -150,158 +307,70 @@ export const ChatMessage = React.memo<ChatMessageProps>(
               })}
             </div>
           )}
-          {!isUser && subAgents.length > 0 && (
+          {!isUser && subAgents.length > 1 && (
+            <div className="mb-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>{subAgents.length} subagents in parallel</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-muted-foreground"
+                onClick={() =>
+                  setSubagentLayout(showLanes ? "stacked" : "lanes")
+                }
+              >
+                {showLanes ? (
+                  <Rows3 className="mr-1 h-3.5 w-3.5" />
+                ) : (
+                  <Columns3 className="mr-1 h-3.5 w-3.5" />
+                )}
+                {showLanes ? "Stack" : "Side by side"}
+              </Button>
+            </div>
+          )}
+          {!isUser && showLanes && (
+            <SubAgentLanes
+              subAgents={subAgents}
+              getSubagentMessages={getSubagentMessages}
+              subagentRuns={subagentRuns}
+              actionRequestsMap={actionRequestsMap}
+              reviewConfigsMap={reviewConfigsMap}
+              onResumeInterrupt={onResumeInterrupt}
+              stream={stream}
+              graphId={graphId}
+              isLoading={isLoading}
+              onRerun={onRerunSubagent}
+            />
+          )}
+          {!isUser && !showLanes && subAgents.length > 0 && (
             <div className="flex w-full max-w-full flex-col gap-4">
               {subAgents.map((subAgent) => (
-                <div
+                <SubAgentCard
                   key={subAgent.id}
-                  className="ml-4 flex w-full flex-col gap-2 border-l-2 border-blue-400/50 pl-4"
-                >
-                  <div className="flex items-end gap-2">
-                    <div className="w-full">
-                      <SubAgentIndicator
-                        subAgent={subAgent}
-                        onClick={() => toggleSubAgent(subAgent.id)}
-                        isExpanded={isSubAgentExpanded(subAgent.id)}
-                      />
-                    </div>
-                  </div>
-                  {/* Show permission request if this subagent (task tool call) has one */}
-                  {actionRequestsMap?.get(subAgent.name) && onResumeInterrupt && (
-                    <div className="mt-2 w-full max-w-full">
-                      <ToolApprovalInterrupt
-                        actionRequest={actionRequestsMap.get(subAgent.name)!}
-                        reviewConfig={reviewConfigsMap?.get(subAgent.name)}
-                        onResume={onResumeInterrupt}
-                        isLoading={isLoading}
-                      />
-                    </div>
-                  )}
-                  {isSubAgentExpanded(subAgent.id) && (
-                    <div className="w-full max-w-full">
-                      <div className="rounded-md border border-border bg-muted/30 p-4">
-                        <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
-                          Input
-                        </h4>
-                        <div className="mb-4">
-                          <MarkdownContent
-                            content={extractSubAgentContent(subAgent.input)}
-                          />
-                        </div>
-
-                        {/* Show subagent streaming messages (tool calls, AI content, etc.) */}
-                        {(() => {
-                          // Workaround: namespace IDs don't match tool call IDs, so we can't directly match.
-                          // Instead, aggregate all subagent messages. In most cases there's only one active subagent.
-                          const allSubagentMsgs = subagentMessages
-                            ? Array.from(subagentMessages.values()).flat()
-                            : [];
-
-                          if (allSubagentMsgs.length === 0) return null;
-
-                          // Build a map of tool call ID -> tool result for matching
-                          const toolResults = new Map<string, any>();
-                          allSubagentMsgs.forEach((msg: any) => {
-                            if (msg.type === "tool" && msg.tool_call_id) {
-                              toolResults.set(msg.tool_call_id, msg);
-                            }
-                          });
-
-                          // Extract tool calls from AI messages and format them for ToolCallBox
-                          const subagentToolCalls: ToolCall[] = [];
-                          allSubagentMsgs.forEach((msg: any) => {
-                            if (msg.type === "ai" && msg.tool_calls && Array.isArray(msg.tool_calls)) {
-                              msg.tool_calls.forEach((tc: any) => {
-                                const toolResult = toolResults.get(tc.id);
-                                // Extract result content - handle different formats
-                                let resultContent: string | undefined;
-                                if (toolResult) {
-                                  const content = toolResult.content;
-                                  if (typeof content === "string") {
-                                    resultContent = content;
-                                  } else if (Array.isArray(content)) {
-                                    // Content can be array of text blocks
-                                    resultContent = content
-                                      .map((item: any) => typeof item === "string" ? item : item.text || JSON.stringify(item))
-                                      .join("\n");
-                                  } else if (content) {
-                                    resultContent = JSON.stringify(content, null, 2);
-                                  }
-                                }
-                                subagentToolCalls.push({
-                                  id: tc.id,
-                                  name: tc.name || "unknown",
-                                  args: tc.args || {},
-                                  status: toolResult ? "completed" : "pending",
-                                  result: resultContent,
-                                });
-                              });
-                            }
-                          });
-
-                          // Also get text content from AI messages (handle both string and array formats)
-                          const aiTextContent = allSubagentMsgs
-                            .filter((msg: any) => msg.type === "ai" && msg.content)
-                            .map((msg: any) => {
-                              const content = msg.content;
-                              if (typeof content === "string") {
-                                return content.trim();
-                              } else if (Array.isArray(content)) {
-                                // Content can be array of text blocks
-                                return content
-                                  .map((item: any) => typeof item === "string" ? item : item.text || "")
-                                  .filter(Boolean)
-                                  .join("\n")
-                                  .trim();
-                              }
-                              return "";
-                            })
-                            .filter((text: string) => text.length > 0);
-
-                          return (
-                            <>
-                              <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
-                                Activity
-                              </h4>
-                              <div className="mb-4 space-y-2">
-                                {/* AI text content */}
-                                {aiTextContent.map((content: string, idx: number) => (
-                                  <div key={`text-${idx}`} className="mb-2">
-                                    <MarkdownContent content={content} />
-                                  </div>
-                                ))}
-                                {/* Tool calls using ToolCallBox */}
-                                {subagentToolCalls.map((toolCall) => (
-                                  <ToolCallBox
-                                    key={toolCall.id}
-                                    toolCall={toolCall}
-                                    stream={stream}
-                                    graphId={graphId}
-                                    isLoading={isLoading}
-                                  />
-                                ))}
-                              </div>
-                            </>
-                          );
-                        })()}
-
-                        {subAgent.output && (
-                          <>
-                            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
-                              Output
-                            </h4>
-                            <MarkdownContent
-                              content={extractSubAgentContent(subAgent.output)}
-                            />
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
+                  subAgent={subAgent}
+                  getSubagentMessages={getSubagentMessages}
+                  subagentRuns={subagentRuns}
+                  actionRequestsMap={actionRequestsMap}
+                  reviewConfigsMap={reviewConfigsMap}
+                  onResumeInterrupt={onResumeInterrupt}
+                  stream={stream}
+                  graphId={graphId}
+                  isLoading={isLoading}
+                  onRerun={onRerunSubagent}
+                />
               ))}
             </div>
           )}
+          {!isUser && (
+            <div className="mt-2 flex flex-col gap-0.5 empty:hidden">
+              <UsageLine usage={messageUsage} />
+              {runUsage && (
+                <UsageLine
+                  usage={runUsage}
+                  label="Run total"
+                />
+              )}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -0,0 +1,309 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import useSWRInfinite from "swr/infinite";
+import { useQueryState } from "nuqs";
+import { format } from "date-fns";
+import { GitFork, History, Loader2, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Message, ThreadState } from "@langchain/langgraph-sdk";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useClient } from "@/providers/ClientProvider";
+import { getHistoryPage, HISTORY_PAGE_SIZE } from "@/lib/history";
+import type { StateType } from "@/app/hooks/useChat";
+import { cn } from "@/lib/utils";
+import {
+  extractStringFromMessageContent,
+  getSourceNode,
+} from "@/app/utils/utils";
+
+function countOf(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === "object") return Object.keys(value).length;
+  return 0;
+}
+
+function CheckpointPreview({ state }: { state: ThreadState<StateType> }) {
+  const messages: Message[] = state.values?.messages ?? [];
+  const todos = state.values?.todos ?? [];
+  const files = Object.keys(state.values?.files ?? {});
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Next
+        </h4>
+        <p className="font-mono text-xs">
+          {state.next.length > 0 ? state.next.join(", ") : "(done)"}
+        </p>
+      </div>
+      <div>
+        <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Messages ({messages.length})
+        </h4>
+        <div className="space-y-1">
+          {messages.map((message, index) => (
+            <div
+              key={message.id ?? index}
+              className="flex gap-2 text-xs"
+            >
+              <span className="w-10 shrink-0 font-mono text-muted-foreground">
+                {message.type}
+              </span>
+              <span className="min-w-0 truncate">
+                {extractStringFromMessageContent(message) ||
+                  (message.type === "ai" && message.tool_calls?.length
+                    ? `[${message.tool_calls.map((c) => c.name).join(", ")}]`
+                    : "")}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+      {todos.length > 0 && (
+        <div>
+          <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Todos ({todos.length})
+          </h4>
+          <ul className="space-y-1 text-xs">
+            {todos.map((todo, index) => (
+              <li
+                key={`${todo.id}_${index}`}
+                className="flex gap-2"
+              >
+                <span className="w-20 shrink-0 text-muted-foreground">
+                  {todo.status}
+                </span>
+                <span className="min-w-0 break-words">{todo.content}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {files.length > 0 && (
+        <div>
+          <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Files ({files.length})
+          </h4>
+          <ul className="space-y-1 font-mono text-xs">
+            {files.map((file) => (
+              <li
+                key={file}
+                className="truncate"
+              >
+                {file}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <details>
+        <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Raw state
+        </summary>
+        <pre className="mt-2 overflow-x-auto whitespace-pre-wrap break-all rounded-sm border border-border bg-muted/40 p-2 font-mono text-xs">
+          {JSON.stringify(state.values, null, 2)}
+        </pre>
+      </details>
+    </div>
+  );
+}
+
+interface CheckpointTimelineProps {
+  onClose?: () => void;
+}
+
+export const CheckpointTimeline = React.memo<CheckpointTimelineProps>(
+  ({ onClose }) => {
+    const { stream, isLoading, resumeFromCheckpoint, forkFromCheckpoint } =
+      useChatContext();
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isForking, setIsForking] = useState(false);
+
+    const client = useClient();
+    const [threadId] = useQueryState("threadId");
+    // The stream only holds the latest checkpoints, so every checkpoint is
+    // paged from the server, again whenever the thread head moves
+    const headId = stream.history.at(-1)?.checkpoint.checkpoint_id;
+    const pages = useSWRInfinite(
+      (_, previous: ThreadState<StateType>[] | null) => {
+        if (!threadId) return null;
+        if (previous && previous.length < HISTORY_PAGE_SIZE) return null;
+        return [
+          "checkpoints",
+          threadId,
+          headId,
+          previous?.at(-1)?.checkpoint.checkpoint_id ?? null,
+        ] as const;
+      },
+      ([, id, , beforeId]) => getHistoryPage<StateType>(client, id, beforeId),
+      { keepPreviousData: true, revalidateOnFocus: false }
+    );
+    const history = useMemo(() => pages.data?.flat() ?? [], [pages.data]);
+    const hasMore =
+      (pages.data?.at(-1)?.length ?? 0) >= HISTORY_PAGE_SIZE &&
+      pages.size === pages.data?.length;
+
+    // Newest checkpoint first
+    const entries = useMemo(
+      () =>
+        history.map((state) => ({
+          state,
+          node:
+            getSourceNode(state, history) ??
+            String(state.metadata?.source ?? "input"),
+        })),
+      [history]
+    );
+
+    const selected = entries.find(
+      (entry) => entry.state.checkpoint.checkpoint_id === selectedId
+    )?.state;
+
+    const handleFork = async () => {
+      if (!selected) return;
+      setIsForking(true);
+      try {
+        await forkFromCheckpoint(selected);
+        setSelectedId(null);
+        toast.success("Forked into a new thread");
+      } catch (error) {
+        toast.error(`Failed to fork thread: ${error}`);
+      } finally {
+        setIsForking(false);
+      }
+    };
+
+    return (
+      <div className="absolute inset-0 flex flex-col">
+        <div className="flex flex-shrink-0 items-center justify-between gap-3 border-b border-border p-4">
+          <h2 className="text-lg font-semibold tracking-tight">Checkpoints</h2>
+          {onClose && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+              aria-label="Close checkpoints panel"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {pages.error ? (
+          <p className="p-4 text-sm text-destructive">
+            Failed to load checkpoints: {String(pages.error)}
+          </p>
+        ) : !pages.data ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center p-8 text-center">
+            <History className="mb-2 h-12 w-12 text-gray-300" />
+            <p className="text-sm text-muted-foreground">No checkpoints yet</p>
+          </div>
+        ) : (
+          <>
+            <ScrollArea
+              className={cn("flex-1", selected ? "h-0 basis-2/5" : "h-0")}
+            >
+              <div className="flex flex-col gap-1 p-2">
+                {entries.map(({ state, node }) => {
+                  const id = state.checkpoint.checkpoint_id ?? "";
+                  const isSelected = id === selectedId;
+                  return (
+                    <button
+                      key={id}
+                      type="button"
+                      onClick={() => setSelectedId(isSelected ? null : id)}
+                      className={cn(
+                        "grid w-full grid-cols-[auto_1fr_auto] items-center gap-3 rounded-lg border px-3 py-2 text-left transition-colors hover:bg-accent",
+                        isSelected
+                          ? "border-primary bg-accent"
+                          : "border-transparent"
+                      )}
+                      aria-current={isSelected}
+                    >
+                      <span className="w-8 font-mono text-xs text-muted-foreground">
+                        #{String(state.metadata?.step ?? "")}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="truncate font-mono text-sm">{node}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {countOf(state.values?.messages)} messages ·{" "}
+                          {countOf(state.values?.todos)} todos ·{" "}
+                          {countOf(state.values?.files)} files
+                        </p>
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {state.created_at
+                          ? format(new Date(state.created_at), "HH:mm:ss")
+                          : ""}
+                      </span>
+                    </button>
+                  );
+                })}
+                {hasMore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs text-muted-foreground"
+                    onClick={() => pages.setSize(pages.size + 1)}
+                  >
+                    Load older checkpoints
+                  </Button>
+                )}
+                {pages.size > (pages.data?.length ?? 0) && (
+                  <Loader2 className="mx-auto my-2 h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex min-h-0 basis-3/5 flex-col border-t border-border">
+                <div className="flex flex-shrink-0 flex-wrap gap-2 p-3">
+                  <Button
+                    size="sm"
+                    onClick={() => resumeFromCheckpoint(selected.checkpoint)}
+                    disabled={isLoading}
+                  >
+                    <Play size={14} />
+                    Resume from here
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleFork}
+                    disabled={isLoading || isForking}
+                  >
+                    {isForking ? (
+                      <Loader2
+                        size={14}
+                        className="animate-spin"
+                      />
+                    ) : (
+                      <GitFork size={14} />
+                    )}
+                    Fork into new thread
+                  </Button>
+                </div>
+                <ScrollArea className="h-0 flex-1">
+                  <div className="px-4 pb-4">
+                    <CheckpointPreview state={selected} />
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+);
+
+CheckpointTimeline.displayName = "CheckpointTimeline";
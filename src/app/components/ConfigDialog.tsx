@@ -1,6 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import {
+  CheckCircle2,
+  CircleDashed,
+  Copy,
+  Loader2,
+  MinusCircle,
+  Plus,
+  Star,
+  Trash2,
+  XCircle,
+} from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -12,50 +23,209 @@ import {
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { StandaloneConfig } from "@/lib/config";
+import { cn } from "@/lib/utils";
+import {
+  createProfile,
+  type DeploymentProfile,
+  type ProfileStore,
+} from "@/lib/config";
+import {
+  testConnection,
+  type ConnectionCheck,
+  type ConnectionCheckStatus,
+} from "@/lib/diagnostics";
+
+type ProfileField = "name" | "deploymentUrl" | "assistantId";
+type FieldErrors = Partial<Record<ProfileField, string>>;
+
+function validateProfile(profile: DeploymentProfile): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!profile.name.trim()) {
+    errors.name = "Profile name is required";
+  }
+  if (!profile.deploymentUrl.trim()) {
+    errors.deploymentUrl = "Deployment URL is required";
+  } else {
+    try {
+      const url = new URL(profile.deploymentUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        errors.deploymentUrl = "URL must start with http:// or https://";
+      }
+    } catch {
+      errors.deploymentUrl = "Enter a valid URL, e.g. http://127.0.0.1:2024";
+    }
+  }
+  if (!profile.assistantId.trim()) {
+    errors.assistantId = "Assistant ID is required";
+  }
+  return errors;
+}
+
+function CheckStatusIcon({ status }: { status: ConnectionCheckStatus }) {
+  switch (status) {
+    case "passed":
+      return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 shrink-0 text-destructive" />;
+    case "running":
+      return <Loader2 className="h-4 w-4 shrink-0 animate-spin" />;
+    case "skipped":
+      return <MinusCircle className="h-4 w-4 shrink-0 text-muted-foreground" />;
+    default:
+      return (
+        <CircleDashed className="h-4 w-4 shrink-0 text-muted-foreground" />
+      );
+  }
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
 
 interface ConfigDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (config: StandaloneConfig) => void;
-  initialConfig?: StandaloneConfig;
+  onSave: (store: ProfileStore, activeProfileId: string) => void;
+  initialStore?: ProfileStore;
+  activeProfileId?: string;
 }
 
 export function ConfigDialog({
   open,
   onOpenChange,
   onSave,
-  initialConfig,
+  initialStore,
+  activeProfileId,
 }: ConfigDialogProps) {
-  const [deploymentUrl, setDeploymentUrl] = useState(
-    initialConfig?.deploymentUrl || ""
-  );
-  const [assistantId, setAssistantId] = useState(
-    initialConfig?.assistantId || ""
-  );
-  const [langsmithApiKey, setLangsmithApiKey] = useState(
-    initialConfig?.langsmithApiKey || ""
-  );
+  const [profiles, setProfiles] = useState<DeploymentProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, FieldErrors>>({});
+  const [checks, setChecks] = useState<ConnectionCheck[] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  // Incremented per test run so results from a stale run are dropped
+  const testRunRef = useRef(0);
 
+  // Work on a draft copy of the profiles so Cancel discards every change
   useEffect(() => {
-    if (open && initialConfig) {
-      setDeploymentUrl(initialConfig.deploymentUrl);
-      setAssistantId(initialConfig.assistantId);
-      setLangsmithApiKey(initialConfig.langsmithApiKey || "");
+    if (!open) return;
+    setErrors({});
+    setChecks(null);
+    if (initialStore && initialStore.profiles.length > 0) {
+      setProfiles(initialStore.profiles);
+      setDefaultProfileId(initialStore.defaultProfileId);
+      setSelectedId(activeProfileId ?? initialStore.profiles[0].id);
+    } else {
+      const profile = createProfile("Default");
+      setProfiles([profile]);
+      setDefaultProfileId(profile.id);
+      setSelectedId(profile.id);
     }
-  }, [open, initialConfig]);
+  }, [open, initialStore, activeProfileId]);
 
-  const handleSave = () => {
-    if (!deploymentUrl || !assistantId) {
-      alert("Please fill in all required fields");
+  const selected = profiles.find((p) => p.id === selectedId) ?? null;
+  const selectedErrors = (selectedId && errors[selectedId]) || {};
+
+  const selectProfile = (id: string) => {
+    testRunRef.current += 1;
+    setIsTesting(false);
+    setChecks(null);
+    setSelectedId(id);
+  };
+
+  const updateSelected = (patch: Partial<DeploymentProfile>) => {
+    if (!selectedId) return;
+    setProfiles((prev) =>
+      prev.map((p) => (p.id === selectedId ? { ...p, ...patch } : p))
+    );
+    setErrors((prev) => {
+      const next = { ...prev[selectedId] };
+      Object.keys(patch).forEach((key) => delete next[key as ProfileField]);
+      return { ...prev, [selectedId]: next };
+    });
+    if (patch.name === undefined) {
+      testRunRef.current += 1;
+      setIsTesting(false);
+      setChecks(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const profile = createProfile(`Profile ${profiles.length + 1}`);
+    setProfiles((prev) => [...prev, profile]);
+    selectProfile(profile.id);
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const profile = createProfile(`${selected.name} (copy)`, selected);
+    setProfiles((prev) => [...prev, profile]);
+    selectProfile(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || profiles.length <= 1) return;
+    const remaining = profiles.filter((p) => p.id !== selected.id);
+    setProfiles(remaining);
+    selectProfile(remaining[0].id);
+    if (defaultProfileId === selected.id) {
+      setDefaultProfileId(remaining[0].id);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!selected) return;
+    const { deploymentUrl, assistantId } = validateProfile(selected);
+    if (deploymentUrl || assistantId) {
+      setErrors((prev) => ({
+        ...prev,
+        [selected.id]: { ...prev[selected.id], deploymentUrl, assistantId },
+      }));
       return;
     }
 
-    onSave({
-      deploymentUrl,
-      assistantId,
-      langsmithApiKey: langsmithApiKey || undefined,
+    const run = ++testRunRef.current;
+    setIsTesting(true);
+    try {
+      await testConnection(selected, (progress) => {
+        if (testRunRef.current === run) setChecks(progress);
+      });
+    } finally {
+      if (testRunRef.current === run) setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    const nextErrors: Record<string, FieldErrors> = {};
+    profiles.forEach((p) => {
+      const profileErrors = validateProfile(p);
+      if (Object.keys(profileErrors).length > 0) {
+        nextErrors[p.id] = profileErrors;
+      }
     });
+    setErrors(nextErrors);
+
+    const invalidIds = Object.keys(nextErrors);
+    if (invalidIds.length > 0 || !selectedId) {
+      if (selectedId && !nextErrors[selectedId] && invalidIds.length > 0) {
+        selectProfile(invalidIds[0]);
+      }
+      return;
+    }
+
+    // The profile being edited when saving becomes the active one
+    onSave(
+      {
+        profiles: profiles.map((p) => ({
+          ...p,
+          name: p.name.trim(),
+          langsmithApiKey: p.langsmithApiKey || undefined,
+        })),
+        defaultProfileId: defaultProfileId ?? profiles[0].id,
+      },
+      selectedId
+    );
     onOpenChange(false);
   };
 
@@ -64,46 +234,182 @@ export function ConfigDialog({
       open={open}
       onOpenChange={onOpenChange}
     >
-      <DialogContent className="sm:max-w-[525px]">
+      <DialogContent className="sm:max-w-[720px]">
         <DialogHeader>
           <DialogTitle>Configuration</DialogTitle>
           <DialogDescription>
-            Configure your LangGraph deployment settings. These settings are
-            saved in your browser&apos;s local storage.
+            Manage your LangGraph deployment profiles. These settings are saved
+            in your browser&apos;s local storage.
           </DialogDescription>
         </DialogHeader>
-        <div className="grid gap-4 py-4">
-          <div className="grid gap-2">
-            <Label htmlFor="deploymentUrl">Deployment URL</Label>
-            <Input
-              id="deploymentUrl"
-              placeholder="https://<deployment-url>"
-              value={deploymentUrl}
-              onChange={(e) => setDeploymentUrl(e.target.value)}
-            />
-          </div>
-          <div className="grid gap-2">
-            <Label htmlFor="assistantId">Assistant ID</Label>
-            <Input
-              id="assistantId"
-              placeholder="<assistant-id>"
-              value={assistantId}
-              onChange={(e) => setAssistantId(e.target.value)}
-            />
-          </div>
-          <div className="grid gap-2">
-            <Label htmlFor="langsmithApiKey">
-              LangSmith API Key{" "}
-              <span className="text-muted-foreground">(Optional)</span>
-            </Label>
-            <Input
-              id="langsmithApiKey"
-              type="password"
-              placeholder="lsv2_pt_..."
-              value={langsmithApiKey}
-              onChange={(e) => setLangsmithApiKey(e.target.value)}
-            />
+        <div className="grid grid-cols-[200px_1fr] gap-6 py-4">
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col gap-1">
+              {profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  onClick={() => selectProfile(profile.id)}
+                  className={cn(
+                    "flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-accent",
+                    profile.id === selectedId
+                      ? "border-primary bg-accent"
+                      : "border-transparent"
+                  )}
+                >
+                  <span className="truncate">{profile.name || "Untitled"}</span>
+                  {profile.id === defaultProfileId && (
+                    <Star className="h-3 w-3 shrink-0 fill-current text-muted-foreground" />
+                  )}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleCreate}
+                aria-label="New profile"
+                title="New profile"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleDuplicate}
+                disabled={!selected}
+                aria-label="Duplicate profile"
+                title="Duplicate profile"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => selected && setDefaultProfileId(selected.id)}
+                disabled={!selected || selected.id === defaultProfileId}
+                aria-label="Set as default profile"
+                title="Set as default profile"
+              >
+                <Star className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleDelete}
+                disabled={!selected || profiles.length <= 1}
+                aria-label="Delete profile"
+                title="Delete profile"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
+          {selected && (
+            <div className="grid content-start gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="profileName">Profile Name</Label>
+                <Input
+                  id="profileName"
+                  placeholder="Local, Staging, Production..."
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  aria-invalid={!!selectedErrors.name}
+                />
+                <FieldError message={selectedErrors.name} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="deploymentUrl">Deployment URL</Label>
+                <Input
+                  id="deploymentUrl"
+                  placeholder="https://<deployment-url>"
+                  value={selected.deploymentUrl}
+                  onChange={(e) =>
+                    updateSelected({ deploymentUrl: e.target.value })
+                  }
+                  aria-invalid={!!selectedErrors.deploymentUrl}
+                />
+                <FieldError message={selectedErrors.deploymentUrl} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="assistantId">Assistant ID</Label>
+                <Input
+                  id="assistantId"
+                  placeholder="<assistant-id>"
+                  value={selected.assistantId}
+                  onChange={(e) =>
+                    updateSelected({ assistantId: e.target.value })
+                  }
+                  aria-invalid={!!selectedErrors.assistantId}
+                />
+                <FieldError message={selectedErrors.assistantId} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="langsmithApiKey">
+                  LangSmith API Key{" "}
+                  <span className="text-muted-foreground">(Optional)</span>
+                </Label>
+                <Input
+                  id="langsmithApiKey"
+                  type="password"
+                  placeholder="lsv2_pt_..."
+                  value={selected.langsmithApiKey ?? ""}
+                  onChange={(e) =>
+                    updateSelected({ langsmithApiKey: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-fit"
+                  onClick={handleTest}
+                  disabled={isTesting}
+                >
+                  {isTesting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Test connection
+                </Button>
+                {checks && (
+                  <ul className="grid gap-2 rounded-md border border-border p-3 text-sm">
+                    {checks.map((check) => (
+                      <li
+                        key={check.id}
+                        className="flex items-start gap-2"
+                      >
+                        <span className="mt-0.5">
+                          <CheckStatusIcon status={check.status} />
+                        </span>
+                        <div className="min-w-0">
+                          <p
+                            className={cn(
+                              check.status === "skipped" &&
+                                "text-muted-foreground"
+                            )}
+                          >
+                            {check.label}
+                          </p>
+                          {check.detail && (
+                            <p
+                              className={cn(
+                                "break-words text-xs",
+                                check.status === "failed"
+                                  ? "text-destructive"
+                                  : "text-muted-foreground"
+                              )}
+                            >
+                              {check.detail}
+                            </p>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button
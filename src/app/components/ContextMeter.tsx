@@ -0,0 +1,364 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, GitFork, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useContextSettings } from "@/app/hooks/useContextSettings";
+import { cn } from "@/lib/utils";
+import { formatTokens } from "@/lib/usage";
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  FALLBACK_CONTEXT_LIMIT,
+  type ContextLevel,
+  type ContextSettings,
+  type ContextUsage,
+} from "@/lib/contextWindow";
+
+const LEVEL_COLORS: Record<ContextLevel, string> = {
+  ok: "bg-green-500",
+  warning: "bg-amber-500",
+  critical: "bg-red-500",
+};
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+function describeUsage(usage: ContextUsage): string {
+  return `${formatTokens(usage.usedTokens)} of ${formatTokens(
+    usage.limitTokens
+  )} tokens${usage.model ? ` (${usage.model})` : ""}${
+    usage.isKnownModel ? "" : ", limit assumed"
+  }`;
+}
+
+function ContextSettingsDialog({
+  open,
+  onOpenChange,
+  usage,
+  onForkWithTranscript,
+  isForking,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  usage: ContextUsage | null;
+  onForkWithTranscript: () => void;
+  isForking: boolean;
+}) {
+  const { contextSettings, setContextSettings } = useContextSettings();
+  const [draft, setDraft] = useState<ContextSettings>(contextSettings);
+
+  useEffect(() => {
+    if (open) setDraft(contextSettings);
+  }, [open, contextSettings]);
+
+  const setThreshold = (
+    key: "warningThreshold" | "criticalThreshold",
+    value: string
+  ) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    setDraft((prev) => ({
+      ...prev,
+      [key]: Math.min(100, Math.max(0, parsed)) / 100,
+    }));
+  };
+
+  const isInvalid = draft.warningThreshold >= draft.criticalThreshold;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Context Window</DialogTitle>
+          <DialogDescription>
+            {usage
+              ? `The latest model call used ${describeUsage(usage)}.`
+              : "No model call has reported usage in this thread yet."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid max-h-[60vh] gap-6 overflow-y-auto py-2 pr-1">
+          {usage && (
+            <div className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+              <p className="text-sm text-muted-foreground">
+                Start a new thread with the same todos and files, with a
+                condensed transcript in the composer that asks the agent to
+                summarize it.
+              </p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onForkWithTranscript}
+                disabled={isForking}
+              >
+                {isForking ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <GitFork className="mr-2 h-4 w-4" />
+                )}
+                Fork with transcript
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="context-warning-threshold">Warning at (%)</Label>
+              <Input
+                id="context-warning-threshold"
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(draft.warningThreshold * 100)}
+                onChange={(e) =>
+                  setThreshold("warningThreshold", e.target.value)
+                }
+                aria-invalid={isInvalid}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="context-critical-threshold">
+                Critical at (%)
+              </Label>
+              <Input
+                id="context-critical-threshold"
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(draft.criticalThreshold * 100)}
+                onChange={(e) =>
+                  setThreshold("criticalThreshold", e.target.value)
+                }
+                aria-invalid={isInvalid}
+              />
+            </div>
+            {isInvalid && (
+              <p className="col-span-2 text-xs text-destructive">
+                The warning threshold must be below the critical threshold.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="mb-1 text-sm font-medium">Context limits</h3>
+            <p className="mb-2 text-xs text-muted-foreground">
+              Models are matched by name prefix. Unknown models assume{" "}
+              {formatTokens(FALLBACK_CONTEXT_LIMIT)} tokens.
+            </p>
+            <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,1fr)_auto] items-center gap-2">
+              {draft.limits.map((row, index) => (
+                <div
+                  key={index}
+                  className="contents"
+                >
+                  <Input
+                    value={row.model}
+                    placeholder="model-name-prefix"
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        limits: prev.limits.map((limit, i) =>
+                          i === index
+                            ? { ...limit, model: e.target.value }
+                            : limit
+                        ),
+                      }))
+                    }
+                    className="font-mono text-xs"
+                    aria-label="Model name prefix"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.tokens}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10);
+                      setDraft((prev) => ({
+                        ...prev,
+                        limits: prev.limits.map((limit, i) =>
+                          i === index
+                            ? {
+                                ...limit,
+                                tokens: Number.isNaN(parsed) ? 0 : parsed,
+                              }
+                            : limit
+                        ),
+                      }));
+                    }}
+                    aria-label={`Context limit for ${row.model}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        limits: prev.limits.filter((_, i) => i !== index),
+                      }))
+                    }
+                    aria-label={`Remove ${row.model}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  limits: [
+                    ...prev.limits,
+                    { model: "", tokens: FALLBACK_CONTEXT_LIMIT },
+                  ],
+                }))
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add model
+            </Button>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => setDraft(DEFAULT_CONTEXT_SETTINGS)}
+          >
+            Reset to defaults
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              setContextSettings({
+                ...draft,
+                limits: draft.limits.filter(
+                  (row) => row.model.trim() && row.tokens > 0
+                ),
+              });
+              onOpenChange(false);
+            }}
+            disabled={isInvalid}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ContextMeterProps {
+  usage: ContextUsage | null;
+  onForkWithTranscript: () => void;
+  isForking: boolean;
+}
+
+export const ContextMeter = React.memo<ContextMeterProps>(
+  ({ usage, onForkWithTranscript, isForking }) => {
+    const [dialogOpen, setDialogOpen] = useState(false);
+
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => setDialogOpen(true)}
+          className="flex items-center gap-2 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent"
+          title={
+            usage ? `Context window: ${describeUsage(usage)}` : "Context window"
+          }
+          aria-label="Context window usage"
+        >
+          <span className="h-1.5 w-16 overflow-hidden rounded-full bg-muted">
+            <span
+              className={cn(
+                "block h-full rounded-full transition-all",
+                LEVEL_COLORS[usage?.level ?? "ok"]
+              )}
+              style={{ width: `${Math.min(1, usage?.ratio ?? 0) * 100}%` }}
+            />
+          </span>
+          <span className="tabular-nums">
+            {usage ? formatPercent(usage.ratio) : "–"}
+          </span>
+        </button>
+        <ContextSettingsDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          usage={usage}
+          onForkWithTranscript={() => {
+            setDialogOpen(false);
+            onForkWithTranscript();
+          }}
+          isForking={isForking}
+        />
+      </>
+    );
+  }
+);
+
+ContextMeter.displayName = "ContextMeter";
+
+interface ContextLimitWarningProps {
+  usage: ContextUsage | null;
+  onForkWithTranscript: () => void;
+  isForking: boolean;
+}
+
+export const ContextLimitWarning = React.memo<ContextLimitWarningProps>(
+  ({ usage, onForkWithTranscript, isForking }) => {
+    if (usage?.level !== "critical") return null;
+
+    return (
+      <div className="mx-auto mb-4 flex w-[calc(100%-32px)] max-w-[1024px] items-center justify-between gap-4 rounded-xl border border-red-300 bg-red-50 px-4 py-3 text-sm dark:border-red-900 dark:bg-red-950/30">
+        <div className="flex items-center gap-2">
+          <AlertTriangle
+            size={16}
+            className="shrink-0 text-red-500"
+          />
+          <span>
+            This thread is using {formatPercent(usage.ratio)} of the
+            model&apos;s context window. Fork it with a condensed transcript to
+            keep going.
+          </span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onForkWithTranscript}
+          disabled={isForking}
+        >
+          {isForking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <GitFork className="mr-2 h-4 w-4" />
+          )}
+          Fork with transcript
+        </Button>
+      </div>
+    );
+  }
+);
+
+ContextLimitWarning.displayName = "ContextLimitWarning";
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Bug, CheckCheck, Play, RotateCcw, Users } from "lucide-react";
+import type { Message } from "@langchain/langgraph-sdk";
+import { Button } from "@/components/ui/button";
+import { useChatContext } from "@/providers/ChatProvider";
+import { isPreparingToCallTaskTool } from "@/app/utils/utils";
+
+function summarizeArgs(args: unknown): string {
+  const text = JSON.stringify(args ?? {});
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+export const DebugToolbar = React.memo(() => {
+  const {
+    stream,
+    messages,
+    isLoading,
+    interrupt,
+    runSingleStep,
+    continueStream,
+    markCurrentThreadAsResolved,
+  } = useChatContext();
+
+  const head = stream.history.at(-1);
+  const parent = useMemo(() => {
+    const parentId = head?.parent_checkpoint?.checkpoint_id;
+    if (!parentId) return undefined;
+    return stream.history.find(
+      (state) => state.checkpoint.checkpoint_id === parentId
+    );
+  }, [head, stream.history]);
+
+  const lastAiMessage = useMemo(
+    () => [...messages].reverse().find((m: Message) => m.type === "ai"),
+    [messages]
+  );
+
+  // Tool calls on the last AI message that have no result yet
+  const pendingToolCalls = useMemo(() => {
+    if (!lastAiMessage || lastAiMessage.type !== "ai") return [];
+    const answered = new Set(
+      messages
+        .filter((m: Message) => m.type === "tool")
+        .map((m: Message) => (m.type === "tool" ? m.tool_call_id : ""))
+    );
+    return (lastAiMessage.tool_calls ?? []).filter(
+      (call) => !call.id || !answered.has(call.id)
+    );
+  }, [lastAiMessage, messages]);
+
+  // The previous step ran the tools node with a task call, so its
+  // subagent can be replayed from the checkpoint before it
+  const canRerunSubagent =
+    !!parent?.next.includes("tools") &&
+    pendingToolCalls.length === 0 &&
+    lastAiMessage?.type === "ai" &&
+    !!lastAiMessage.tool_calls?.some((call) => call.name === "task");
+
+  const isPaused =
+    !isLoading &&
+    !!interrupt &&
+    (interrupt as { when?: string }).when === "breakpoint";
+  if (!isPaused || !head) return null;
+
+  const rerunFromParent = (isRerunningSubagent: boolean) => {
+    if (!parent) return;
+    runSingleStep(
+      messages,
+      parent.checkpoint,
+      isRerunningSubagent,
+      parent.values.messages
+    );
+  };
+
+  return (
+    <div className="mx-auto mb-4 flex w-[calc(100%-32px)] max-w-[1024px] flex-col gap-3 rounded-xl border border-orange-300 bg-orange-50 px-4 py-3 dark:border-orange-900 dark:bg-orange-950/30">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 text-sm">
+          <div className="flex items-center gap-2 font-medium">
+            <Bug size={14} />
+            Paused before{" "}
+            <span className="font-mono">{head.next.join(", ")}</span>
+          </div>
+          {pendingToolCalls.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {pendingToolCalls.map((call, index) => (
+                <li
+                  key={call.id ?? index}
+                  className="truncate font-mono text-xs text-muted-foreground"
+                >
+                  <span className="text-foreground">{call.name}</span>{" "}
+                  {summarizeArgs(call.args)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          onClick={() => continueStream(isPreparingToCallTaskTool(messages))}
+        >
+          <Play size={14} />
+          Continue
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => rerunFromParent(false)}
+          disabled={!parent}
+        >
+          <RotateCcw size={14} />
+          Re-run this step
+        </Button>
+        {canRerunSubagent && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => rerunFromParent(true)}
+          >
+            <Users size={14} />
+            Re-run subagent
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={markCurrentThreadAsResolved}
+        >
+          <CheckCheck size={14} />
+          Mark resolved
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+DebugToolbar.displayName = "DebugToolbar";
@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useChatContext } from "@/providers/ChatProvider";
+import { getToolCallElementId } from "@/lib/timeline";
+
+// Each click scrolls to the next failed tool call on screen; failures inside
+// collapsed subagents are counted but skipped
+export const FailedToolsButton = React.memo(() => {
+  const { failedToolCallIds } = useChatContext();
+  const [nextIndex, setNextIndex] = useState(0);
+
+  if (failedToolCallIds.length === 0) return null;
+
+  const handleClick = () => {
+    for (let offset = 0; offset < failedToolCallIds.length; offset++) {
+      const index = (nextIndex + offset) % failedToolCallIds.length;
+      const element = document.getElementById(
+        getToolCallElementId(failedToolCallIds[index])
+      );
+      if (element) {
+        element.scrollIntoView({ behavior: "smooth", block: "center" });
+        setNextIndex(index + 1);
+        return;
+      }
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      className="rounded-md border border-destructive/40 bg-card p-3 text-destructive hover:bg-destructive/10 hover:text-destructive"
+      title="Scroll to the next failed tool call"
+    >
+      <AlertCircle className="mr-2 h-4 w-4" />
+      {failedToolCallIds.length} failed{" "}
+      {failedToolCallIds.length === 1 ? "tool" : "tools"}
+    </Button>
+  );
+});
+
+FailedToolsButton.displayName = "FailedToolsButton";
@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import useSWR from "swr";
+import { useQueryState } from "nuqs";
+import { Loader2, Minus, Plus, X } from "lucide-react";
+import type { Assistant, AssistantGraph } from "@langchain/langgraph-sdk";
+import { Button } from "@/components/ui/button";
+import { useClient } from "@/providers/ClientProvider";
+import { useChatContext } from "@/providers/ChatProvider";
+import { cn } from "@/lib/utils";
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 36;
+const GAP_X = 24;
+const GAP_Y = 56;
+const PADDING = 32;
+// Back edges loop around the right side of the diagram
+const LOOP_OFFSET = 48;
+
+interface LayoutNode {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  depth: number;
+  isTerminal: boolean;
+}
+
+interface LayoutEdge {
+  key: string;
+  path: string;
+  conditional: boolean;
+}
+
+interface GraphLayout {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  width: number;
+  height: number;
+}
+
+function isTerminalNode(id: string): boolean {
+  const name = id.split(":").pop();
+  return name === "__start__" || name === "__end__";
+}
+
+// Layered top-down layout: back edges are found with a DFS from __start__ and
+// ignored for layering, then each node sits one layer below its deepest parent
+function layoutGraph(graph: AssistantGraph): GraphLayout {
+  const ids = graph.nodes.map((node) => String(node.id));
+  const labels = new Map(
+    graph.nodes.map((node) => [String(node.id), node.name ?? String(node.id)])
+  );
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  graph.edges.forEach((edge) => outgoing.get(edge.source)?.push(edge.target));
+
+  const backEdges = new Set<string>();
+  const visitState = new Map<string, "visiting" | "done">();
+  const visit = (id: string) => {
+    visitState.set(id, "visiting");
+    for (const target of outgoing.get(id) ?? []) {
+      const state = visitState.get(target);
+      if (state === "visiting") {
+        backEdges.add(`${id}->${target}`);
+      } else if (!state) {
+        visit(target);
+      }
+    }
+    visitState.set(id, "done");
+  };
+  [...ids.filter((id) => id === "__start__"), ...ids].forEach((id) => {
+    if (!visitState.has(id)) visit(id);
+  });
+
+  const incoming = new Map<string, string[]>(ids.map((id) => [id, []]));
+  graph.edges.forEach((edge) => {
+    if (!backEdges.has(`${edge.source}->${edge.target}`)) {
+      incoming.get(edge.target)?.push(edge.source);
+    }
+  });
+  const layers = new Map<string, number>();
+  const getLayer = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    layers.set(id, 0);
+    const layer = Math.max(
+      0,
+      ...(incoming.get(id) ?? []).map((source) => getLayer(source) + 1)
+    );
+    layers.set(id, layer);
+    return layer;
+  };
+  ids.forEach(getLayer);
+
+  const rows: string[][] = [];
+  ids.forEach((id) => {
+    const layer = layers.get(id) ?? 0;
+    (rows[layer] ??= []).push(id);
+  });
+  const maxRowSize = Math.max(1, ...rows.map((row) => row?.length ?? 0));
+  const contentWidth = maxRowSize * NODE_WIDTH + (maxRowSize - 1) * GAP_X;
+
+  const positions = new Map<string, LayoutNode>();
+  rows.forEach((row, layer) => {
+    if (!row) return;
+    const rowWidth = row.length * NODE_WIDTH + (row.length - 1) * GAP_X;
+    const offset = PADDING + (contentWidth - rowWidth) / 2;
+    row.forEach((id, index) => {
+      positions.set(id, {
+        id,
+        label: (labels.get(id) ?? id).split(":").pop() ?? id,
+        x: offset + index * (NODE_WIDTH + GAP_X),
+        y: PADDING + layer * (NODE_HEIGHT + GAP_Y),
+        depth: id.split(":").length - 1,
+        isTerminal: isTerminalNode(id),
+      });
+    });
+  });
+
+  const edges = graph.edges.flatMap((edge, index): LayoutEdge[] => {
+    const source = positions.get(edge.source);
+    const target = positions.get(edge.target);
+    if (!source || !target) return [];
+
+    const isBack = backEdges.has(`${edge.source}->${edge.target}`);
+    let path: string;
+    if (isBack) {
+      const sx = source.x + NODE_WIDTH;
+      const sy = source.y + NODE_HEIGHT / 2;
+      const tx = target.x + NODE_WIDTH;
+      const ty = target.y + NODE_HEIGHT / 2;
+      const loopX = Math.max(sx, tx) + LOOP_OFFSET;
+      path = `M ${sx} ${sy} C ${loopX} ${sy}, ${loopX} ${ty}, ${tx} ${ty}`;
+    } else {
+      const sx = source.x + NODE_WIDTH / 2;
+      const sy = source.y + NODE_HEIGHT;
+      const tx = target.x + NODE_WIDTH / 2;
+      const ty = target.y;
+      const midY = (sy + ty) / 2;
+      path = `M ${sx} ${sy} C ${sx} ${midY}, ${tx} ${midY}, ${tx} ${ty}`;
+    }
+    return [
+      {
+        key: `${edge.source}->${edge.target}-${index}`,
+        path,
+        conditional: !!edge.conditional,
+      },
+    ];
+  });
+
+  return {
+    nodes: Array.from(positions.values()),
+    edges,
+    width: contentWidth + PADDING * 2 + LOOP_OFFSET,
+    height: rows.length * NODE_HEIGHT + (rows.length - 1) * GAP_Y + PADDING * 2,
+  };
+}
+
+interface GraphPanelProps {
+  assistant: Assistant | null;
+  onClose?: () => void;
+}
+
+export const GraphPanel = React.memo<GraphPanelProps>(
+  ({ assistant, onClose }) => {
+    const client = useClient();
+    const { activeNodes } = useChatContext();
+    const [nodeFilter, setNodeFilter] = useQueryState("node");
+    const [zoom, setZoom] = useState(1);
+
+    const assistantId = assistant?.assistant_id;
+    const graph = useSWR(
+      assistantId ? ["assistant-graph", assistantId] : null,
+      ([, id]) => client.assistants.getGraph(id, { xray: true })
+    );
+
+    const layout = useMemo(
+      () => (graph.data ? layoutGraph(graph.data) : null),
+      [graph.data]
+    );
+
+    return (
+      <div className="absolute inset-0 flex flex-col">
+        <div className="flex flex-shrink-0 items-center justify-between gap-3 border-b border-border p-4">
+          <h2 className="text-lg font-semibold tracking-tight">Graph</h2>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setZoom((z) => Math.max(0.4, z - 0.2))}
+              aria-label="Zoom out"
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setZoom((z) => Math.min(2, z + 0.2))}
+              aria-label="Zoom in"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            {onClose && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onClose}
+                className="h-8 w-8"
+                aria-label="Close graph panel"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {graph.isLoading && (
+            <div className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading graph...
+            </div>
+          )}
+          {graph.error && (
+            <div className="flex flex-col items-center justify-center p-8 text-center">
+              <p className="text-sm text-red-600">Failed to load graph</p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {graph.error instanceof Error
+                  ? graph.error.message
+                  : String(graph.error)}
+              </p>
+            </div>
+          )}
+          {layout && (
+            <svg
+              width={layout.width * zoom}
+              height={layout.height * zoom}
+              viewBox={`0 0 ${layout.width} ${layout.height}`}
+              className="mx-auto block"
+            >
+              <defs>
+                <marker
+                  id="graph-arrow"
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    className="fill-muted-foreground"
+                  />
+                </marker>
+              </defs>
+              {layout.edges.map((edge) => (
+                <path
+                  key={edge.key}
+                  d={edge.path}
+                  fill="none"
+                  strokeWidth={1.5}
+                  strokeDasharray={edge.conditional ? "4 4" : undefined}
+                  markerEnd="url(#graph-arrow)"
+                  className="stroke-muted-foreground/60"
+                />
+              ))}
+              {layout.nodes.map((node) => {
+                const isActive = activeNodes.includes(node.id);
+                const isSelected = nodeFilter === node.id;
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${node.x}, ${node.y})`}
+                    onClick={() => setNodeFilter(isSelected ? null : node.id)}
+                    className="cursor-pointer"
+                    role="button"
+                    aria-pressed={isSelected}
+                  >
+                    <title>{node.id}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={node.isTerminal ? NODE_HEIGHT / 2 : 8}
+                      strokeWidth={isSelected ? 2 : 1}
+                      className={cn(
+                        "transition-colors",
+                        isActive
+                          ? "animate-pulse fill-blue-100 stroke-blue-500 dark:fill-blue-950"
+                          : node.depth > 0
+                          ? "fill-muted stroke-border hover:fill-accent"
+                          : "fill-background stroke-border hover:fill-accent",
+                        isSelected && "stroke-primary"
+                      )}
+                    />
+                    <text
+                      x={NODE_WIDTH / 2}
+                      y={NODE_HEIGHT / 2}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      className={cn(
+                        "pointer-events-none text-xs",
+                        node.isTerminal
+                          ? "fill-muted-foreground"
+                          : "fill-foreground"
+                      )}
+                    >
+                      {node.label.length > 20
+                        ? `${node.label.slice(0, 19)}…`
+                        : node.label}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+GraphPanel.displayName = "GraphPanel";
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from "react";
+import { Brain, ChevronDown, ChevronUp } from "lucide-react";
+import { MarkdownContent } from "@/app/components/MarkdownContent";
+import type { RenderableBlock } from "@/app/utils/utils";
+
+function ReasoningBlock({
+  text,
+  redacted,
+}: {
+  text: string;
+  redacted?: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (redacted) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Brain size={14} />
+        Thinking (redacted)
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-border">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-xs text-muted-foreground hover:bg-accent"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex items-center gap-2">
+          <Brain size={14} />
+          Thinking
+        </span>
+        {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+      {isExpanded && (
+        <div className="border-t border-border px-3 py-2 text-muted-foreground">
+          <MarkdownContent content={text} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UnknownBlock({ type, data }: { type: string; data: unknown }) {
+  return (
+    <div className="rounded-lg border border-border">
+      <p className="border-b border-border px-3 py-1.5 font-mono text-xs text-muted-foreground">
+        {type}
+      </p>
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all px-3 py-2 font-mono text-xs">
+        {JSON.stringify(data, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+interface MessageContentBlocksProps {
+  blocks: RenderableBlock[];
+}
+
+export const MessageContentBlocks = React.memo<MessageContentBlocksProps>(
+  ({ blocks }) => {
+    return (
+      <div className="flex flex-col gap-3">
+        {blocks.map((block, index) => {
+          switch (block.kind) {
+            case "text":
+              return (
+                <MarkdownContent
+                  key={index}
+                  content={block.text}
+                />
+              );
+            case "image":
+              return (
+                <img
+                  key={index}
+                  src={block.src}
+                  alt={block.alt ?? "Image output"}
+                  className="max-h-96 max-w-full self-start rounded-md border border-border object-contain"
+                />
+              );
+            case "reasoning":
+              return (
+                <ReasoningBlock
+                  key={index}
+                  text={block.text}
+                  redacted={block.redacted}
+                />
+              );
+            default:
+              return (
+                <UnknownBlock
+                  key={index}
+                  type={block.type}
+                  data={block.data}
+                />
+              );
+          }
+        })}
+      </div>
+    );
+  }
+);
+
+MessageContentBlocks.displayName = "MessageContentBlocks";
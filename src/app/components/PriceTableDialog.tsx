@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { usePriceTable } from "@/app/hooks/usePriceTable";
+import {
+  DEFAULT_PRICE_TABLE,
+  estimateModelCost,
+  findModelPrice,
+  formatCost,
+  formatTokens,
+  type ModelPrice,
+  type UsageByModel,
+} from "@/lib/usage";
+
+const PRICE_FIELDS = [
+  { key: "input", label: "Input" },
+  { key: "output", label: "Output" },
+  { key: "cacheRead", label: "Cache read" },
+  { key: "cacheWrite", label: "Cache write" },
+] as const;
+
+interface PriceTableDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  usage: UsageByModel;
+}
+
+export function PriceTableDialog({
+  open,
+  onOpenChange,
+  usage,
+}: PriceTableDialogProps) {
+  const { priceTable, setPriceTable } = usePriceTable();
+  const [draft, setDraft] = useState<ModelPrice[]>(priceTable);
+
+  useEffect(() => {
+    if (open) setDraft(priceTable);
+  }, [open, priceTable]);
+
+  const updateRow = (index: number, patch: Partial<ModelPrice>) =>
+    setDraft((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row))
+    );
+
+  const usageRows = Object.entries(usage);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Token Usage</DialogTitle>
+          <DialogDescription>
+            Costs are estimated locally from the price table below, in USD per
+            million tokens. Models are matched by name prefix.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid max-h-[60vh] gap-6 overflow-y-auto py-2 pr-1">
+          <div>
+            <h3 className="mb-2 text-sm font-medium">This thread</h3>
+            {usageRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No usage reported yet.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs text-muted-foreground">
+                  <tr>
+                    <th className="pb-1 font-medium">Model</th>
+                    <th className="pb-1 text-right font-medium">Input</th>
+                    <th className="pb-1 text-right font-medium">Cached</th>
+                    <th className="pb-1 text-right font-medium">Output</th>
+                    <th className="pb-1 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usageRows.map(([model, modelUsage]) => {
+                    const price = findModelPrice(model, draft);
+                    return (
+                      <tr key={model}>
+                        <td className="py-1 font-mono text-xs">{model}</td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatTokens(modelUsage.inputTokens)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatTokens(modelUsage.cacheReadTokens)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatTokens(modelUsage.outputTokens)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {price ? (
+                            formatCost(estimateModelCost(modelUsage, price))
+                          ) : (
+                            <span className="text-muted-foreground">
+                              no price
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-medium">Price table</h3>
+            <div className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))_auto] items-center gap-2">
+              <span className="text-xs text-muted-foreground">Model</span>
+              {PRICE_FIELDS.map((field) => (
+                <span
+                  key={field.key}
+                  className="text-xs text-muted-foreground"
+                >
+                  {field.label}
+                </span>
+              ))}
+              <span />
+              {draft.map((row, index) => (
+                <div
+                  key={index}
+                  className="contents"
+                >
+                  <Input
+                    value={row.model}
+                    placeholder="model-name-prefix"
+                    onChange={(e) =>
+                      updateRow(index, { model: e.target.value })
+                    }
+                    className="font-mono text-xs"
+                    aria-label="Model name prefix"
+                  />
+                  {PRICE_FIELDS.map((field) => (
+                    <Input
+                      key={field.key}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={row[field.key] ?? ""}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        updateRow(index, {
+                          [field.key]: Number.isNaN(parsed)
+                            ? field.key === "input" || field.key === "output"
+                              ? 0
+                              : undefined
+                            : parsed,
+                        });
+                      }}
+                      aria-label={`${field.label} price for ${row.model}`}
+                    />
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      setDraft((prev) => prev.filter((_, i) => i !== index))
+                    }
+                    aria-label={`Remove ${row.model}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              onClick={() =>
+                setDraft((prev) => [
+                  ...prev,
+                  { model: "", input: 0, output: 0 },
+                ])
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add model
+            </Button>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => setDraft(DEFAULT_PRICE_TABLE)}
+          >
+            Reset to defaults
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              setPriceTable(draft.filter((row) => row.model.trim()));
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, Clock, Paperclip, Pencil, Send, X } from "lucide-react";
+import type { QueuedMessage } from "@/app/hooks/useChat";
+
+interface QueuedMessageChipProps {
+  queued: QueuedMessage;
+  onUpdate: (id: string, content: string) => void;
+  onCancel: (id: string) => void;
+}
+
+function QueuedMessageChip({
+  queued,
+  onUpdate,
+  onCancel,
+}: QueuedMessageChipProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    if (draft !== null && draft.trim()) onUpdate(queued.id, draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex h-8 max-w-full items-center gap-2 rounded-md border border-dashed border-border bg-muted/40 px-2 text-xs">
+      <Clock
+        size={12}
+        className="shrink-0 text-muted-foreground"
+      />
+      {draft !== null ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              save();
+            } else if (e.key === "Escape") {
+              setDraft(null);
+            }
+          }}
+          onBlur={save}
+          className="min-w-[200px] flex-1 bg-transparent outline-none"
+          aria-label="Edit queued message"
+        />
+      ) : (
+        <span
+          className="min-w-0 truncate"
+          title={queued.content}
+        >
+          {queued.content || "(attachments only)"}
+        </span>
+      )}
+      {queued.attachments.length > 0 && (
+        <span className="flex shrink-0 items-center gap-0.5 text-muted-foreground">
+          <Paperclip size={12} />
+          {queued.attachments.length}
+        </span>
+      )}
+      {draft !== null ? (
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={save}
+          className="shrink-0 rounded-sm p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+          aria-label="Save queued message"
+        >
+          <Check size={12} />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft(queued.content)}
+          className="shrink-0 rounded-sm p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+          aria-label="Edit queued message"
+        >
+          <Pencil size={12} />
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => onCancel(queued.id)}
+        className="shrink-0 rounded-sm p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+        aria-label="Cancel queued message"
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
+
+interface QueuedMessagesProps {
+  queuedMessages: QueuedMessage[];
+  held: boolean;
+  onUpdate: (id: string, content: string) => void;
+  onCancel: (id: string) => void;
+  onRelease: () => void;
+}
+
+// Messages waiting for the current run to finish, sent in order. After a
+// stopped or failed run they wait until the user releases them.
+export const QueuedMessages = React.memo<QueuedMessagesProps>(
+  ({ queuedMessages, held, onUpdate, onCancel, onRelease }) => {
+    if (queuedMessages.length === 0) return null;
+
+    return (
+      <div className="flex flex-col gap-1.5 px-[18px] pt-3">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            {held
+              ? "Held because the run was stopped or failed"
+              : "Queued until the run finishes"}
+          </span>
+          {held && (
+            <button
+              type="button"
+              onClick={onRelease}
+              className="flex items-center gap-1 rounded-sm px-1 py-0.5 text-foreground hover:bg-accent"
+            >
+              <Send size={12} />
+              Send queued
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {queuedMessages.map((queued) => (
+            <QueuedMessageChip
+              key={queued.id}
+              queued={queued}
+              onUpdate={onUpdate}
+              onCancel={onCancel}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+);
+
+QueuedMessages.displayName = "QueuedMessages";
@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import useSWR from "swr";
+import { Loader2, RotateCcw } from "lucide-react";
+import type { Assistant } from "@langchain/langgraph-sdk";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useClient } from "@/providers/ClientProvider";
+import type { JsonSchema } from "@/app/types/types";
+import { DEFAULT_RECURSION_LIMIT, type RunSettings } from "@/lib/runSettings";
+
+type FieldKind = "boolean" | "number" | "integer" | "enum" | "string" | "json";
+
+interface FormField {
+  key: string;
+  kind: FieldKind;
+  label: string;
+  description?: string;
+  // Raw enum values, so non-string options keep their schema type
+  options?: unknown[];
+  defaultValue?: unknown;
+}
+
+// Follows $ref and unwraps Optional[...] style anyOf/oneOf so every field
+// maps to a single concrete schema
+function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (schema.$ref) {
+    const name = schema.$ref.split("/").pop() ?? "";
+    const target = root.$defs?.[name] ?? root.definitions?.[name];
+    if (target) {
+      return resolveSchema({ ...target, ...schema, $ref: undefined }, root);
+    }
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const concrete = variants.find((v) => v.type !== "null") ?? variants[0];
+    return resolveSchema(
+      { ...concrete, ...schema, anyOf: undefined, oneOf: undefined },
+      root
+    );
+  }
+  if (schema.allOf?.length === 1) {
+    return resolveSchema(
+      { ...schema.allOf[0], ...schema, allOf: undefined },
+      root
+    );
+  }
+  return schema;
+}
+
+function getFieldKind(schema: JsonSchema): FieldKind {
+  if (schema.enum) return "enum";
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== "null")
+    : schema.type;
+  switch (type) {
+    case "boolean":
+    case "number":
+    case "integer":
+    case "string":
+      return type;
+    default:
+      return "json";
+  }
+}
+
+function getFormFields(
+  schema: JsonSchema | null | undefined,
+  defaults: Record<string, unknown>
+): FormField[] {
+  if (!schema?.properties) return [];
+  return Object.entries(schema.properties).map(([key, property]) => {
+    const resolved = resolveSchema(property, schema);
+    return {
+      key,
+      kind: getFieldKind(resolved),
+      label: resolved.title ?? key,
+      description: resolved.description,
+      options: resolved.enum,
+      defaultValue: defaults[key] ?? resolved.default,
+    };
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function JsonField({
+  id,
+  value,
+  placeholder,
+  onChange,
+}: {
+  id: string;
+  value: unknown;
+  placeholder: string;
+  onChange: (value: unknown) => void;
+}) {
+  const [text, setText] = useState(() =>
+    value === undefined ? "" : JSON.stringify(value, null, 2)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <>
+      <textarea
+        id={id}
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          if (!text.trim()) {
+            setError(null);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(text));
+            setError(null);
+          } catch {
+            setError("Invalid JSON");
+          }
+        }}
+        rows={3}
+        aria-invalid={!!error}
+        className="aria-invalid:border-destructive w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </>
+  );
+}
+
+function SchemaField({
+  field,
+  value,
+  onChange,
+}: {
+  field: FormField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  const id = `run-setting-${field.key}`;
+  const placeholder = formatValue(field.defaultValue);
+
+  const control = (() => {
+    switch (field.kind) {
+      case "boolean":
+        return (
+          <Switch
+            id={id}
+            checked={Boolean(value ?? field.defaultValue)}
+            onCheckedChange={(checked) => onChange(checked)}
+          />
+        );
+      case "enum": {
+        // Options are selected by index and mapped back to their value
+        const selected = field.options?.findIndex((option) => option === value);
+        return (
+          <Select
+            value={
+              selected === undefined || selected === -1 ? "" : String(selected)
+            }
+            onValueChange={(index) => onChange(field.options?.[Number(index)])}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={placeholder || "Select..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map((option, index) => (
+                <SelectItem
+                  key={index}
+                  value={String(index)}
+                >
+                  {String(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case "number":
+      case "integer":
+        return (
+          <Input
+            id={id}
+            type="number"
+            step={field.kind === "integer" ? 1 : "any"}
+            value={value === undefined ? "" : String(value)}
+            placeholder={placeholder}
+            onChange={(e) => {
+              const parsed =
+                field.kind === "integer"
+                  ? parseInt(e.target.value, 10)
+                  : parseFloat(e.target.value);
+              onChange(Number.isNaN(parsed) ? undefined : parsed);
+            }}
+          />
+        );
+      case "string":
+        return (
+          <Input
+            id={id}
+            value={value === undefined ? "" : String(value)}
+            placeholder={placeholder}
+            onChange={(e) => onChange(e.target.value || undefined)}
+          />
+        );
+      default:
+        return (
+          <JsonField
+            // Remount when cleared so the textarea drops its stale text
+            key={value === undefined ? "unset" : "set"}
+            id={id}
+            value={value}
+            placeholder={placeholder}
+            onChange={onChange}
+          />
+        );
+    }
+  })();
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{field.label}</Label>
+        {value !== undefined && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        )}
+      </div>
+      {field.description && (
+        <p className="text-xs text-muted-foreground">{field.description}</p>
+      )}
+      {control}
+    </div>
+  );
+}
+
+function setOverride(
+  values: Record<string, unknown>,
+  key: string,
+  value: unknown
+): Record<string, unknown> {
+  const next = { ...values };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
+
+interface RunSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assistant: Assistant | null;
+  settings: RunSettings;
+  onSave: (settings: RunSettings) => void;
+}
+
+export function RunSettingsDialog({
+  open,
+  onOpenChange,
+  assistant,
+  settings,
+  onSave,
+}: RunSettingsDialogProps) {
+  const client = useClient();
+  const [draft, setDraft] = useState<RunSettings>(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const assistantId = assistant?.assistant_id;
+  const schemas = useSWR(
+    open && assistantId ? ["assistant-schemas", assistantId] : null,
+    ([, id]) => client.assistants.getSchemas(id)
+  );
+
+  const configFields = useMemo(
+    () =>
+      getFormFields(
+        schemas.data?.config_schema as JsonSchema | null | undefined,
+        (assistant?.config?.configurable ?? {}) as Record<string, unknown>
+      ),
+    [schemas.data, assistant?.config]
+  );
+  const contextFields = useMemo(
+    () =>
+      getFormFields(
+        schemas.data?.context_schema as JsonSchema | null | undefined,
+        (assistant?.context ?? {}) as Record<string, unknown>
+      ),
+    [schemas.data, assistant?.context]
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Run Settings</DialogTitle>
+          <DialogDescription>
+            Override the assistant&apos;s configuration for runs in this thread.
+            Empty fields use the assistant defaults.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid max-h-[60vh] gap-4 overflow-y-auto py-2 pr-1">
+          <div className="grid gap-2">
+            <Label htmlFor="run-setting-recursion-limit">Recursion Limit</Label>
+            <Input
+              id="run-setting-recursion-limit"
+              type="number"
+              min={1}
+              step={1}
+              value={draft.recursionLimit ?? ""}
+              placeholder={String(DEFAULT_RECURSION_LIMIT)}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10);
+                setDraft((prev) => ({
+                  ...prev,
+                  recursionLimit: Number.isNaN(parsed) ? undefined : parsed,
+                }));
+              }}
+            />
+          </div>
+
+          {schemas.isLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading schema...
+            </div>
+          )}
+          {schemas.error && (
+            <p className="text-sm text-destructive">
+              Failed to load the assistant schema:{" "}
+              {schemas.error instanceof Error
+                ? schemas.error.message
+                : String(schemas.error)}
+            </p>
+          )}
+
+          {schemas.data &&
+            (configFields.length === 0 && contextFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This graph does not declare any configurable or context fields.
+              </p>
+            ) : (
+              <Tabs
+                defaultValue={
+                  configFields.length > 0 ? "configurable" : "context"
+                }
+              >
+                <TabsList>
+                  {configFields.length > 0 && (
+                    <TabsTrigger value="configurable">Configurable</TabsTrigger>
+                  )}
+                  {contextFields.length > 0 && (
+                    <TabsTrigger value="context">Context</TabsTrigger>
+                  )}
+                </TabsList>
+                <TabsContent
+                  value="configurable"
+                  className="grid gap-4 pt-2"
+                >
+                  {configFields.map((field) => (
+                    <SchemaField
+                      key={field.key}
+                      field={field}
+                      value={draft.configurable[field.key]}
+                      onChange={(value) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          configurable: setOverride(
+                            prev.configurable,
+                            field.key,
+                            value
+                          ),
+                        }))
+                      }
+                    />
+                  ))}
+                </TabsContent>
+                <TabsContent
+                  value="context"
+                  className="grid gap-4 pt-2"
+                >
+                  {contextFields.map((field) => (
+                    <SchemaField
+                      key={field.key}
+                      field={field}
+                      value={draft.context[field.key]}
+                      onChange={(value) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          context: setOverride(prev.context, field.key, value),
+                        }))
+                      }
+                    />
+                  ))}
+                </TabsContent>
+              </Tabs>
+            ))}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => setDraft({ configurable: {}, context: {} })}
+          >
+            Reset all
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(draft);
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
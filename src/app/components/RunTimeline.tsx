@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ChartGantt, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useNow } from "@/app/hooks/useNow";
+import { getSourceNode } from "@/app/utils/utils";
+import { cn } from "@/lib/utils";
+import {
+  formatDuration,
+  getCheckpointSpans,
+  getToolCallElementId,
+  groupSpansIntoLanes,
+  splitIntoRuns,
+  type TimelineLane,
+  type TimelineLaneSpan,
+  type TimelineSpan,
+} from "@/lib/timeline";
+
+function getSpanLabel(span: TimelineSpan): string {
+  if (span.toolCalls.length === 0) return span.node;
+  return span.toolCalls.map((call) => call.name).join(", ");
+}
+
+function getSpanColor(span: TimelineSpan): string {
+  if (span.error) return "bg-red-500/80";
+  if (span.toolCalls.some((call) => call.name === "task")) {
+    return "bg-blue-500/80";
+  }
+  if (span.toolCalls.length > 0) return "bg-amber-500/80";
+  return "bg-primary/70";
+}
+
+// Scrolls to the first tool call of the span that is on screen, falling back
+// to the task call that started the subagent lane
+function scrollToToolCall(span: TimelineSpan, lane: TimelineLane) {
+  const ids = [
+    ...span.toolCalls.map((call) => call.id),
+    lane.parentToolCallId,
+  ].filter((id): id is string => !!id);
+  const element = ids
+    .map((id) => document.getElementById(getToolCallElementId(id)))
+    .find(Boolean);
+  element?.scrollIntoView({ behavior: "smooth", block: "center" });
+}
+
+interface TimelineBarProps {
+  span: TimelineLaneSpan;
+  lane: TimelineLane;
+  runStart: number;
+  runDuration: number;
+  now: number;
+}
+
+const TimelineBar = React.memo<TimelineBarProps>(
+  ({ span, lane, runStart, runDuration, now }) => {
+    const end = span.end ?? now;
+    const duration = end - span.start;
+    const left = ((span.start - runStart) / runDuration) * 100;
+    const width = (duration / runDuration) * 100;
+    const label = getSpanLabel(span);
+
+    return (
+      <Tooltip delayDuration={150}>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            onClick={() => scrollToToolCall(span, lane)}
+            className={cn(
+              "absolute h-5 min-w-[3px] overflow-hidden rounded-sm px-1 text-left text-[10px] leading-5 text-white",
+              getSpanColor(span),
+              span.end === undefined && "animate-pulse"
+            )}
+            style={{
+              top: `${span.row * 1.5 + 0.25}rem`,
+              left: `${left}%`,
+              width: `${width}%`,
+            }}
+            aria-label={`${label}, ${formatDuration(duration)}`}
+          >
+            <span className="block truncate">{label}</span>
+          </button>
+        </TooltipTrigger>
+        <TooltipContent
+          side="bottom"
+          className="max-w-sm"
+        >
+          <p className="font-medium">
+            {span.node}
+            <span className="text-primary-foreground/80 ml-2 font-normal">
+              {formatDuration(duration)}
+              {span.end === undefined && " (running)"}
+            </span>
+          </p>
+          <p className="text-primary-foreground/80">
+            {format(new Date(span.start), "HH:mm:ss")}
+          </p>
+          {span.toolCalls.map((call, index) => (
+            <div
+              key={call.id ?? index}
+              className="mt-1"
+            >
+              <p className="font-mono">{call.name}</p>
+              <pre className="text-primary-foreground/80 max-h-32 overflow-hidden whitespace-pre-wrap break-all font-mono text-[10px]">
+                {JSON.stringify(call.args, null, 2)}
+              </pre>
+            </div>
+          ))}
+          {span.error && <p className="mt-1 text-red-300">{span.error}</p>}
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+);
+
+TimelineBar.displayName = "TimelineBar";
+
+interface RunTimelineProps {
+  onClose?: () => void;
+}
+
+export const RunTimeline = React.memo<RunTimelineProps>(({ onClose }) => {
+  const { stream, isLoading, timelineSpans } = useChatContext();
+  const now = useNow(isLoading);
+  const [selectedRun, setSelectedRun] = useState<number | null>(null);
+
+  // Checkpoint timestamps cover the runs from before this session's events
+  const runs = useMemo(() => {
+    const firstLive = Math.min(...timelineSpans.map((span) => span.start));
+    const checkpointSpans = getCheckpointSpans(stream.history, (state) =>
+      getSourceNode(state, stream.history)
+    ).filter((span) => (span.end ?? 0) <= firstLive);
+    return splitIntoRuns([...checkpointSpans, ...timelineSpans], now);
+  }, [stream.history, timelineSpans, now]);
+
+  // Follow the latest run unless an earlier one was picked
+  const runIndex =
+    selectedRun !== null && selectedRun < runs.length
+      ? selectedRun
+      : runs.length - 1;
+  const run = useMemo(() => runs[runIndex] ?? [], [runs, runIndex]);
+  const lanes = useMemo(() => groupSpansIntoLanes(run, now), [run, now]);
+  const runStart = Math.min(...run.map((span) => span.start));
+  const runEnd = Math.max(...run.map((span) => span.end ?? now));
+  const runDuration = Math.max(1, runEnd - runStart);
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className="flex flex-shrink-0 items-center justify-between gap-3 border-b border-border p-4">
+        <h2 className="text-lg font-semibold tracking-tight">Timeline</h2>
+        <div className="flex items-center gap-1">
+          {runs.length > 1 && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setSelectedRun(runIndex - 1)}
+                disabled={runIndex === 0}
+                aria-label="Previous run"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                Run {runIndex + 1} / {runs.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() =>
+                  setSelectedRun(
+                    runIndex + 1 >= runs.length - 1 ? null : runIndex + 1
+                  )
+                }
+                disabled={runIndex === runs.length - 1}
+                aria-label="Next run"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {onClose && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+              aria-label="Close timeline panel"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {run.length === 0 ? (
+        <div className="flex flex-col items-center justify-center p-8 text-center">
+          <ChartGantt className="mb-2 h-12 w-12 text-gray-300" />
+          <p className="text-sm text-muted-foreground">No runs recorded yet</p>
+        </div>
+      ) : (
+        <ScrollArea className="h-0 flex-1">
+          <div className="p-4">
+            <div className="mb-2 flex justify-between pl-[6.5rem] text-xs tabular-nums text-muted-foreground">
+              <span>{format(new Date(runStart), "HH:mm:ss")}</span>
+              <span>{formatDuration(runDuration)}</span>
+            </div>
+            <div className="flex flex-col gap-1">
+              {lanes.map((lane) => (
+                <div
+                  key={lane.id}
+                  className="flex items-start gap-2"
+                >
+                  <span
+                    className="w-24 shrink-0 truncate pt-1 text-xs leading-5 text-muted-foreground"
+                    title={lane.id || lane.label}
+                  >
+                    {lane.label}
+                  </span>
+                  <div
+                    className="relative flex-1 rounded-sm bg-muted/40"
+                    style={{ height: `${lane.rows * 1.5 + 0.25}rem` }}
+                  >
+                    {lane.spans.map((span) => (
+                      <TimelineBar
+                        key={span.id}
+                        span={span}
+                        lane={lane}
+                        runStart={runStart}
+                        runDuration={runDuration}
+                        now={now}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+});
+
+RunTimeline.displayName = "RunTimeline";
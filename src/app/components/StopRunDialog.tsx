@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Square, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useChatContext } from "@/providers/ChatProvider";
+import type { RunCancelAction } from "@/app/types/types";
+
+interface StopRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StopRunDialog({ open, onOpenChange }: StopRunDialogProps) {
+  const { stopStream } = useChatContext();
+  const [stopping, setStopping] = useState<RunCancelAction | null>(null);
+
+  const handleStop = async (action: RunCancelAction) => {
+    setStopping(action);
+    try {
+      const result = await stopStream(action);
+      if (result === "disconnected") {
+        toast.warning("Disconnected; the server run could not be found");
+      } else {
+        toast.success(
+          action === "rollback"
+            ? "Run stopped and rolled back"
+            : "Run stopped, its progress was kept"
+        );
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Failed to stop the run: ${error}`);
+    } finally {
+      setStopping(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!stopping) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Stop run</DialogTitle>
+          <DialogDescription>
+            The run is cancelled on the server, so it stops calling tools even
+            if this page is closed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <Button
+            variant="outline"
+            className="h-auto justify-start gap-3 whitespace-normal p-3 text-left"
+            onClick={() => handleStop("interrupt")}
+            disabled={stopping !== null}
+          >
+            {stopping === "interrupt" ? (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+            ) : (
+              <Square className="h-4 w-4 shrink-0" />
+            )}
+            <span>
+              <span className="block font-medium">Interrupt</span>
+              <span className="block text-xs font-normal text-muted-foreground">
+                Keep everything the run did so far and continue from there
+                later.
+              </span>
+            </span>
+          </Button>
+          <Button
+            variant="outline"
+            className="h-auto justify-start gap-3 whitespace-normal p-3 text-left"
+            onClick={() => handleStop("rollback")}
+            disabled={stopping !== null}
+          >
+            {stopping === "rollback" ? (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+            ) : (
+              <Undo2 className="h-4 w-4 shrink-0" />
+            )}
+            <span>
+              <span className="block font-medium">Roll back</span>
+              <span className="block text-xs font-normal text-muted-foreground">
+                Discard this run and return the thread to how it was before it
+                started.
+              </span>
+            </span>
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            disabled={stopping !== null}
+          >
+            Keep running
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
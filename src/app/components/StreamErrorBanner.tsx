@@ -0,0 +1,128 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  AlertCircle,
+  Check,
+  Copy,
+  FastForward,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useChatContext } from "@/providers/ChatProvider";
+import { getStreamErrorInfo } from "@/app/utils/utils";
+import { DEFAULT_RECURSION_LIMIT } from "@/lib/runSettings";
+
+export const StreamErrorBanner = React.memo(() => {
+  const {
+    stream,
+    error,
+    isLoading,
+    resumeFromCheckpoint,
+    continueStream,
+    runSettings,
+    setRunSettings,
+    stoppedWith,
+  } = useChatContext();
+  const [dismissedError, setDismissedError] = useState<unknown>(null);
+  const [copied, setCopied] = useState(false);
+
+  // A run the user stopped may end the stream with a cancellation error
+  if (!error || isLoading || stoppedWith || error === dismissedError) {
+    return null;
+  }
+
+  const info = getStreamErrorInfo(error);
+  const lastCheckpoint = stream.history.at(-1)?.checkpoint;
+  const nextLimit = (runSettings.recursionLimit ?? DEFAULT_RECURSION_LIMIT) * 2;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(info.detail);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // The higher limit is kept for later runs in this thread too
+  const handleContinue = () => {
+    setRunSettings({ ...runSettings, recursionLimit: nextLimit });
+    continueStream(false, nextLimit);
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-destructive/40 bg-destructive/5 p-4 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex min-w-0 items-start gap-2">
+          <AlertCircle
+            size={16}
+            className="mt-0.5 shrink-0 text-destructive"
+          />
+          <div className="min-w-0">
+            <p className="font-medium">
+              {info.isRecursionLimit ? "Recursion limit reached" : "Run failed"}
+              <span className="ml-2 font-mono text-xs font-normal text-muted-foreground">
+                {info.type}
+              </span>
+            </p>
+            <p className="mt-1 break-words text-muted-foreground">
+              {info.message}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={() => setDismissedError(error)}
+          aria-label="Dismiss error"
+        >
+          <X size={14} />
+        </Button>
+      </div>
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-xs text-muted-foreground">
+          Details
+        </summary>
+        <div className="relative mt-2">
+          <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-all rounded-sm border border-border bg-background p-2 pr-9 font-mono text-xs">
+            {info.detail}
+          </pre>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1 h-7 w-7"
+            onClick={handleCopy}
+            aria-label="Copy error details"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+          </Button>
+        </div>
+      </details>
+
+      {lastCheckpoint && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => resumeFromCheckpoint(lastCheckpoint)}
+          >
+            <RotateCcw size={14} />
+            Retry from last checkpoint
+          </Button>
+          {info.isRecursionLimit && (
+            <Button
+              size="sm"
+              onClick={handleContinue}
+            >
+              <FastForward size={14} />
+              Continue with a higher limit ({nextLimit})
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+StreamErrorBanner.displayName = "StreamErrorBanner";
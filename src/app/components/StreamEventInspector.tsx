@@ -0,0 +1,398 @@
+"use client";
+
+import React, {
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { format } from "date-fns";
+import { useQueryState } from "nuqs";
+import {
+  ChevronDown,
+  ChevronRight,
+  Circle,
+  Download,
+  PanelBottom,
+  PanelRight,
+  Pause,
+  Radio,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useChatContext } from "@/providers/ChatProvider";
+import { cn } from "@/lib/utils";
+import {
+  exportStreamEvents,
+  getNamespaceLabel,
+  type StreamEventRecord,
+} from "@/lib/streamEvents";
+
+export type InspectorDock = "right" | "bottom";
+
+const EVENT_TYPES = [
+  "values",
+  "updates",
+  "messages",
+  "debug",
+  "custom",
+  "metadata",
+];
+
+const TYPE_COLORS: Record<string, string> = {
+  values: "text-blue-600 dark:text-blue-400",
+  updates: "text-green-600 dark:text-green-400",
+  messages: "text-violet-600 dark:text-violet-400",
+  debug: "text-amber-600 dark:text-amber-400",
+  custom: "text-pink-600 dark:text-pink-400",
+  error: "text-destructive",
+};
+
+// Rendering every token event would stall the panel during long runs
+const MAX_VISIBLE_EVENTS = 500;
+
+const ALL_NAMESPACES = "__all__";
+
+function summarizeData(data: unknown): string {
+  if (Array.isArray(data)) return `[${data.length}]`;
+  if (data && typeof data === "object") {
+    const keys = Object.keys(data);
+    return keys.length > 4
+      ? `{${keys.slice(0, 4).join(", ")}, …}`
+      : `{${keys.join(", ")}}`;
+  }
+  return JSON.stringify(data) ?? "";
+}
+
+function JsonPrimitive({ value }: { value: unknown }) {
+  if (typeof value === "string") {
+    return (
+      <span className="break-all text-green-700 dark:text-green-400">
+        &quot;{value}&quot;
+      </span>
+    );
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return (
+      <span className="text-blue-700 dark:text-blue-400">{String(value)}</span>
+    );
+  }
+  return <span className="text-muted-foreground">{String(value)}</span>;
+}
+
+function JsonTree({
+  name,
+  value,
+  depth = 0,
+}: {
+  name?: string;
+  value: unknown;
+  depth?: number;
+}) {
+  const [isExpanded, setIsExpanded] = useState(depth < 1);
+  const isObject = value !== null && typeof value === "object";
+
+  const label = name !== undefined && (
+    <span className="text-muted-foreground">{name}: </span>
+  );
+
+  if (!isObject) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="flex items-center text-left hover:bg-accent"
+      >
+        {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        {label}
+        <span className="text-muted-foreground">
+          {Array.isArray(value) ? `Array(${entries.length})` : "Object"}
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="ml-1.5 border-l border-border pl-1.5">
+          {entries.map(([key, child]) => (
+            <JsonTree
+              key={key}
+              name={key}
+              value={child}
+              depth={depth + 1}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface StreamEventInspectorProps {
+  dock: InspectorDock;
+  onDockChange: (dock: InspectorDock) => void;
+  onClose: () => void;
+}
+
+export const StreamEventInspector = React.memo<StreamEventInspectorProps>(
+  ({ dock, onDockChange, onClose }) => {
+    const { eventLog } = useChatContext();
+    const [threadId] = useQueryState("threadId");
+    const events = useSyncExternalStore(
+      eventLog.subscribe,
+      eventLog.getSnapshot,
+      eventLog.getSnapshot
+    );
+    const [hiddenTypes, setHiddenTypes] = useState<string[]>([]);
+    const [namespace, setNamespace] = useState(ALL_NAMESPACES);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+
+    // Events are only recorded while the inspector is open
+    useEffect(() => {
+      eventLog.setRecording(true);
+      return () => eventLog.setRecording(false);
+    }, [eventLog]);
+
+    const types = useMemo(
+      () => Array.from(new Set([...EVENT_TYPES, ...events.map((e) => e.type)])),
+      [events]
+    );
+    const namespaces = useMemo(
+      () =>
+        Array.from(new Set(events.map((e) => getNamespaceLabel(e.namespace)))),
+      [events]
+    );
+
+    const filtered = useMemo(
+      () =>
+        events.filter(
+          (event) =>
+            !hiddenTypes.includes(event.type) &&
+            (namespace === ALL_NAMESPACES ||
+              getNamespaceLabel(event.namespace) === namespace)
+        ),
+      [events, hiddenTypes, namespace]
+    );
+    // Newest first
+    const visible = useMemo(
+      () => filtered.slice(-MAX_VISIBLE_EVENTS).reverse(),
+      [filtered]
+    );
+    const selected = events.find((event) => event.id === selectedId);
+
+    const toggleType = (type: string) =>
+      setHiddenTypes((prev) =>
+        prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]
+      );
+
+    return (
+      <div className="absolute inset-0 flex flex-col text-xs">
+        <div className="flex flex-shrink-0 items-center justify-between gap-2 border-b border-border px-4 py-2">
+          <h2 className="text-sm font-semibold tracking-tight">
+            Stream events
+            <span className="ml-2 font-normal text-muted-foreground">
+              {events.length}
+            </span>
+          </h2>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => eventLog.setRecording(!eventLog.recording)}
+              aria-label={
+                eventLog.recording ? "Pause recording" : "Resume recording"
+              }
+              title={eventLog.recording ? "Pause recording" : "Record"}
+            >
+              {eventLog.recording ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Circle className="h-4 w-4 fill-red-500 text-red-500" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                eventLog.clear();
+                setSelectedId(null);
+              }}
+              disabled={events.length === 0}
+              aria-label="Clear events"
+              title="Clear"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => exportStreamEvents(events, threadId)}
+              disabled={events.length === 0}
+              aria-label="Export events"
+              title="Export to a JSON file"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() =>
+                onDockChange(dock === "right" ? "bottom" : "right")
+              }
+              aria-label={dock === "right" ? "Dock to bottom" : "Dock to right"}
+              title={dock === "right" ? "Dock to bottom" : "Dock to right"}
+            >
+              {dock === "right" ? (
+                <PanelBottom className="h-4 w-4" />
+              ) : (
+                <PanelRight className="h-4 w-4" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onClose}
+              aria-label="Close stream events panel"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-shrink-0 flex-wrap items-center gap-1 border-b border-border px-4 py-2">
+          {types.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={cn(
+                "rounded-full border px-2 py-0.5 font-mono",
+                hiddenTypes.includes(type)
+                  ? "border-border text-muted-foreground line-through"
+                  : "border-primary/40 bg-accent"
+              )}
+              aria-pressed={!hiddenTypes.includes(type)}
+            >
+              {type}
+            </button>
+          ))}
+          <Select
+            value={namespace}
+            onValueChange={setNamespace}
+          >
+            <SelectTrigger
+              className="ml-auto h-7 w-fit max-w-[220px] text-xs"
+              aria-label="Namespace filter"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent align="end">
+              <SelectItem value={ALL_NAMESPACES}>All namespaces</SelectItem>
+              {namespaces.map((label) => (
+                <SelectItem
+                  key={label}
+                  value={label}
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center p-8 text-center">
+            <Radio className="mb-2 h-12 w-12 text-gray-300" />
+            <p className="text-sm text-muted-foreground">
+              {eventLog.recording
+                ? "Waiting for stream events"
+                : "Recording is paused"}
+            </p>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              "flex min-h-0 flex-1",
+              dock === "right" ? "flex-col" : "flex-row"
+            )}
+          >
+            <ScrollArea className="h-0 min-h-full flex-1">
+              {filtered.length > visible.length && (
+                <p className="px-4 py-1 text-muted-foreground">
+                  Showing the latest {visible.length} of {filtered.length}
+                </p>
+              )}
+              <div className="flex flex-col">
+                {visible.map((event: StreamEventRecord) => (
+                  <button
+                    key={event.id}
+                    type="button"
+                    onClick={() =>
+                      setSelectedId(event.id === selectedId ? null : event.id)
+                    }
+                    className={cn(
+                      "grid grid-cols-[auto_auto_minmax(0,1fr)] items-center gap-2 border-b border-border/50 px-4 py-1 text-left font-mono hover:bg-accent",
+                      event.id === selectedId && "bg-accent"
+                    )}
+                  >
+                    <span className="text-muted-foreground">
+                      {format(new Date(event.time), "HH:mm:ss.SSS")}
+                    </span>
+                    <span className={TYPE_COLORS[event.type]}>
+                      {event.type}
+                    </span>
+                    <span className="truncate text-muted-foreground">
+                      {event.namespace.length > 0 &&
+                        `${getNamespaceLabel(event.namespace)} `}
+                      {summarizeData(event.data)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            {selected && (
+              <ScrollArea
+                className={cn(
+                  "h-0 min-h-full flex-1",
+                  dock === "right" ? "border-t" : "border-l",
+                  "border-border"
+                )}
+              >
+                <div className="p-4 font-mono">
+                  <p className="mb-2 text-muted-foreground">
+                    {selected.type} · {getNamespaceLabel(selected.namespace)} ·{" "}
+                    {format(new Date(selected.time), "HH:mm:ss.SSS")}
+                  </p>
+                  <JsonTree value={selected.data} />
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+StreamEventInspector.displayName = "StreamEventInspector";
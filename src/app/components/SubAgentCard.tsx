@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { SubAgentIndicator } from "@/app/components/SubAgentIndicator";
+import { ToolCallBox } from "@/app/components/ToolCallBox";
+import { MarkdownContent } from "@/app/components/MarkdownContent";
+import { ToolApprovalInterrupt } from "@/app/components/ToolApprovalInterrupt";
+import { UsageLine } from "@/app/components/UsageSummary";
+import type { ActionRequest, ReviewConfig, SubAgent } from "@/app/types/types";
+import {
+  extractSubAgentContent,
+  getSubAgentActivity,
+  getSubAgents,
+} from "@/app/utils/utils";
+import { getToolCallElementId } from "@/lib/timeline";
+import { summarizeUsage } from "@/lib/usage";
+import type { SubagentRuns } from "@/lib/subagents";
+
+export type GetSubagentMessages = (
+  toolCallId: string,
+  description?: string
+) => any[];
+
+interface SubAgentCardProps {
+  subAgent: SubAgent;
+  getSubagentMessages?: GetSubagentMessages;
+  subagentRuns?: SubagentRuns;
+  actionRequestsMap?: Map<string, ActionRequest>;
+  reviewConfigsMap?: Map<string, ReviewConfig>;
+  onResumeInterrupt?: (value: any) => void;
+  stream?: any;
+  graphId?: string;
+  isLoading?: boolean;
+  // Only top-level subagents can be rerun, from the parent's checkpoint
+  onRerun?: (toolCallId: string, description: string) => Promise<void>;
+}
+
+// Subagents started by this subagent's own task calls render as nested cards
+export const SubAgentCard = React.memo<SubAgentCardProps>(
+  ({
+    subAgent,
+    getSubagentMessages,
+    subagentRuns,
+    actionRequestsMap,
+    reviewConfigsMap,
+    onResumeInterrupt,
+    stream,
+    graphId,
+    isLoading,
+    onRerun,
+  }) => {
+    const [isExpanded, setIsExpanded] = useState(true);
+    const description = extractSubAgentContent(subAgent.input);
+    const [rerunDraft, setRerunDraft] = useState<string | null>(null);
+    const [isRerunning, setIsRerunning] = useState(false);
+    const canRerun =
+      !!onRerun &&
+      !isLoading &&
+      ["completed", "error", "cancelled"].includes(subAgent.status);
+
+    const submitRerun = async () => {
+      if (!onRerun || rerunDraft === null || !rerunDraft.trim()) return;
+      setIsRerunning(true);
+      try {
+        await onRerun(subAgent.id, rerunDraft.trim());
+        setRerunDraft(null);
+      } catch (error) {
+        toast.error(`Failed to rerun the subagent: ${error}`);
+      } finally {
+        setIsRerunning(false);
+      }
+    };
+
+    const messages = getSubagentMessages?.(subAgent.id, description) ?? [];
+    const { texts, toolCalls } = getSubAgentActivity(messages);
+    const nestedSubAgents = getSubAgents(toolCalls, subagentRuns);
+
+    return (
+      <div
+        id={getToolCallElementId(subAgent.id)}
+        className="ml-4 flex w-full flex-col gap-2 border-l-2 border-blue-400/50 pl-4"
+      >
+        <div className="flex items-end gap-2">
+          <div className="w-full">
+            <SubAgentIndicator
+              subAgent={subAgent}
+              onClick={() => setIsExpanded((prev) => !prev)}
+              isExpanded={isExpanded}
+            />
+          </div>
+          {canRerun && rerunDraft === null && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 shrink-0 px-2 text-xs text-muted-foreground"
+              onClick={() => setRerunDraft(description)}
+              title="Run only this subagent again; the others keep their results"
+            >
+              <RotateCcw className="mr-1 h-3.5 w-3.5" />
+              Rerun
+            </Button>
+          )}
+        </div>
+        {rerunDraft !== null && (
+          <div className="flex flex-col gap-2 rounded-md border border-border p-2">
+            <label
+              htmlFor={`rerun-${subAgent.id}`}
+              className="text-xs text-muted-foreground"
+            >
+              Task description for the rerun
+            </label>
+            <textarea
+              id={`rerun-${subAgent.id}`}
+              value={rerunDraft}
+              onChange={(e) => setRerunDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setRerunDraft(null);
+              }}
+              autoFocus
+              rows={Math.min(8, Math.max(3, rerunDraft.split("\n").length))}
+              className="w-full resize-none bg-transparent px-1 text-sm leading-relaxed outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setRerunDraft(null)}
+                disabled={isRerunning}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={submitRerun}
+                disabled={!rerunDraft.trim() || isRerunning || isLoading}
+              >
+                {isRerunning && (
+                  <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                )}
+                Rerun
+              </Button>
+            </div>
+          </div>
+        )}
+        {/* Show permission request if this subagent (task tool call) has one */}
+        {actionRequestsMap?.get(subAgent.name) && onResumeInterrupt && (
+          <div className="mt-2 w-full max-w-full">
+            <ToolApprovalInterrupt
+              actionRequest={actionRequestsMap.get(subAgent.name)!}
+              reviewConfig={reviewConfigsMap?.get(subAgent.name)}
+              onResume={onResumeInterrupt}
+              isLoading={isLoading}
+            />
+          </div>
+        )}
+        {isExpanded && (
+          <div className="w-full max-w-full">
+            <div className="rounded-md border border-border bg-muted/30 p-4">
+              <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                Input
+              </h4>
+              <div className="mb-4">
+                <MarkdownContent content={description} />
+              </div>
+
+              {messages.length > 0 && (
+                <>
+                  <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Activity
+                  </h4>
+                  <UsageLine
+                    usage={summarizeUsage(messages)}
+                    label="Subagent"
+                    className="mb-2"
+                  />
+                  <div className="mb-4 space-y-2">
+                    {texts.map((content, idx) => (
+                      <div
+                        key={`text-${idx}`}
+                        className="mb-2"
+                      >
+                        <MarkdownContent content={content} />
+                      </div>
+                    ))}
+                    {toolCalls.map((toolCall) =>
+                      toolCall.name === "task" ? null : (
+                        <ToolCallBox
+                          key={toolCall.id}
+                          toolCall={toolCall}
+                          stream={stream}
+                          graphId={graphId}
+                          isLoading={isLoading}
+                        />
+                      )
+                    )}
+                    {nestedSubAgents.map((nested) => (
+                      <SubAgentCard
+                        key={nested.id}
+                        subAgent={nested}
+                        getSubagentMessages={getSubagentMessages}
+                        subagentRuns={subagentRuns}
+                        stream={stream}
+                        graphId={graphId}
+                        isLoading={isLoading}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {subAgent.output && (
+                <>
+                  <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Output
+                  </h4>
+                  <MarkdownContent
+                    content={extractSubAgentContent(subAgent.output)}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+SubAgentCard.displayName = "SubAgentCard";
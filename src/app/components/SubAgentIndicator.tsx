@@ -2,8 +2,16 @@
 
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  Loader2,
+} from "lucide-react";
 import type { SubAgent } from "@/app/types/types";
+import { useNow } from "@/app/hooks/useNow";
+import { formatDuration } from "@/lib/timeline";
 
 interface SubAgentIndicatorProps {
   subAgent: SubAgent;
@@ -13,6 +21,12 @@ interface SubAgentIndicatorProps {
 
 export const SubAgentIndicator = React.memo<SubAgentIndicatorProps>(
   ({ subAgent, onClick, isExpanded = true }) => {
+    const now = useNow(subAgent.status === "active");
+    const duration =
+      subAgent.startedAt !== undefined
+        ? (subAgent.endedAt ?? now) - subAgent.startedAt
+        : undefined;
+
     return (
       <div className="w-fit max-w-full overflow-hidden rounded-lg bg-blue-50 dark:bg-blue-950/30">
         <Button
@@ -22,11 +36,39 @@ export const SubAgentIndicator = React.memo<SubAgentIndicatorProps>(
           className="flex w-full items-center justify-between gap-2 px-4 py-2 text-left transition-colors duration-200 hover:bg-blue-100 dark:hover:bg-blue-900/30"
         >
           <div className="flex w-full items-center justify-between gap-2">
-            <div className="flex items-center gap-2">
+            <div className="flex min-w-0 items-center gap-2">
               <span className="text-lg">🤖</span>
               <span className="font-sans text-[15px] font-semibold leading-[140%] tracking-[-0.4px] text-blue-700 dark:text-blue-300">
                 {subAgent.subAgentName}
               </span>
+              {subAgent.status === "active" && (
+                <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-blue-500" />
+              )}
+              {subAgent.status === "queued" && (
+                <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  Queued
+                </span>
+              )}
+              {duration !== undefined && (
+                <span className="text-xs font-normal tabular-nums text-muted-foreground">
+                  {formatDuration(duration)}
+                </span>
+              )}
+              {subAgent.status === "error" && (
+                <span
+                  className="flex items-center gap-1 rounded-full bg-destructive/10 px-2 py-0.5 text-[10px] font-medium text-destructive"
+                  title={subAgent.error}
+                >
+                  <AlertCircle className="h-3 w-3" />
+                  Error
+                </span>
+              )}
+              {subAgent.status === "cancelled" && (
+                <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-medium text-muted-foreground">
+                  Cancelled
+                </span>
+              )}
             </div>
             {isExpanded ? (
               <ChevronUp
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  AlertCircle,
+  Ban,
+  CheckCircle,
+  Circle,
+  Clock,
+  Loader2,
+} from "lucide-react";
+import { SubAgentIndicator } from "@/app/components/SubAgentIndicator";
+import {
+  SubAgentCard,
+  type GetSubagentMessages,
+} from "@/app/components/SubAgentCard";
+import type {
+  ActionRequest,
+  ReviewConfig,
+  SubAgent,
+  ToolCall,
+} from "@/app/types/types";
+import { extractSubAgentContent, getSubAgentActivity } from "@/app/utils/utils";
+import { useNow } from "@/app/hooks/useNow";
+import { cn } from "@/lib/utils";
+import { formatDuration, getToolCallElementId } from "@/lib/timeline";
+import type { SubagentRuns } from "@/lib/subagents";
+
+// Characters of the latest subagent text shown at the bottom of a lane
+const TAIL_LENGTH = 280;
+
+const STATUS_LABELS: Record<SubAgent["status"], string> = {
+  pending: "Waiting",
+  queued: "Queued",
+  active: "Running",
+  completed: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+function StatusIcon({ status }: { status: SubAgent["status"] }) {
+  switch (status) {
+    case "active":
+      return <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-500" />;
+    case "queued":
+      return <Clock className="h-3.5 w-3.5 text-muted-foreground" />;
+    case "completed":
+      return <CheckCircle className="h-3.5 w-3.5 text-green-500" />;
+    case "error":
+      return <AlertCircle className="h-3.5 w-3.5 text-destructive" />;
+    case "cancelled":
+      return <Ban className="h-3.5 w-3.5 text-muted-foreground" />;
+    default:
+      return <Circle className="h-3.5 w-3.5 text-muted-foreground" />;
+  }
+}
+
+interface SubAgentLaneProps {
+  subAgent: SubAgent;
+  elapsed?: number;
+  latestToolCall?: ToolCall;
+  tail?: string;
+  needsApproval: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function SubAgentLane({
+  subAgent,
+  elapsed,
+  latestToolCall,
+  tail,
+  needsApproval,
+  isExpanded,
+  onToggle,
+}: SubAgentLaneProps) {
+  return (
+    <div
+      // The expanded card below carries the ID instead
+      id={isExpanded ? undefined : getToolCallElementId(subAgent.id)}
+      className={cn(
+        "flex min-w-0 flex-col gap-2 rounded-md border bg-muted/30 p-3",
+        isExpanded ? "border-blue-400" : "border-border"
+      )}
+    >
+      <SubAgentIndicator
+        subAgent={subAgent}
+        onClick={onToggle}
+        isExpanded={isExpanded}
+      />
+      <p
+        className="line-clamp-2 text-xs text-muted-foreground"
+        title={extractSubAgentContent(subAgent.input)}
+      >
+        {extractSubAgentContent(subAgent.input)}
+      </p>
+      <div className="flex items-center gap-1.5 text-xs">
+        <StatusIcon status={subAgent.status} />
+        <span>{STATUS_LABELS[subAgent.status]}</span>
+        {elapsed !== undefined && (
+          <span className="tabular-nums text-muted-foreground">
+            {formatDuration(elapsed)}
+          </span>
+        )}
+        {needsApproval && (
+          <span className="ml-auto rounded-full bg-amber-100 px-2 py-0.5 text-[10px] text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+            Needs approval
+          </span>
+        )}
+      </div>
+      {latestToolCall && (
+        <div className="flex min-w-0 items-center gap-1.5 text-xs">
+          <StatusIcon
+            status={
+              latestToolCall.status === "pending"
+                ? "active"
+                : latestToolCall.status === "error"
+                ? "error"
+                : "completed"
+            }
+          />
+          <span className="truncate font-mono">{latestToolCall.name}</span>
+        </div>
+      )}
+      {tail && (
+        <p className="whitespace-pre-wrap break-words border-t border-border pt-2 text-xs leading-relaxed text-muted-foreground">
+          {tail}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface SubAgentLanesProps {
+  subAgents: SubAgent[];
+  getSubagentMessages?: GetSubagentMessages;
+  subagentRuns?: SubagentRuns;
+  actionRequestsMap?: Map<string, ActionRequest>;
+  reviewConfigsMap?: Map<string, ReviewConfig>;
+  onResumeInterrupt?: (value: any) => void;
+  stream?: any;
+  graphId?: string;
+  isLoading?: boolean;
+  onRerun?: (toolCallId: string, description: string) => Promise<void>;
+}
+
+// One column per parallel subagent; the expanded lane shows its full card
+// below the columns
+export const SubAgentLanes = React.memo<SubAgentLanesProps>(
+  ({
+    subAgents,
+    getSubagentMessages,
+    subagentRuns,
+    actionRequestsMap,
+    reviewConfigsMap,
+    onResumeInterrupt,
+    stream,
+    graphId,
+    isLoading,
+    onRerun,
+  }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const now = useNow(
+      subAgents.some((subAgent) => subAgent.status === "active")
+    );
+    const expanded = subAgents.find((subAgent) => subAgent.id === expandedId);
+
+    return (
+      <div className="flex w-full max-w-full flex-col gap-3">
+        <div className="grid auto-cols-[minmax(220px,1fr)] grid-flow-col gap-3 overflow-x-auto pb-1">
+          {subAgents.map((subAgent) => {
+            const messages =
+              getSubagentMessages?.(
+                subAgent.id,
+                extractSubAgentContent(subAgent.input)
+              ) ?? [];
+            const { texts, toolCalls } = getSubAgentActivity(messages);
+            const latestText = texts.at(-1);
+            return (
+              <SubAgentLane
+                key={subAgent.id}
+                subAgent={subAgent}
+                elapsed={
+                  subAgent.startedAt !== undefined
+                    ? (subAgent.endedAt ?? now) - subAgent.startedAt
+                    : undefined
+                }
+                latestToolCall={toolCalls.at(-1)}
+                tail={
+                  latestText && latestText.length > TAIL_LENGTH
+                    ? `…${latestText.slice(-TAIL_LENGTH)}`
+                    : latestText
+                }
+                needsApproval={
+                  !!actionRequestsMap?.get(subAgent.name) && !!onResumeInterrupt
+                }
+                isExpanded={subAgent.id === expandedId}
+                onToggle={() =>
+                  setExpandedId((prev) =>
+                    prev === subAgent.id ? null : subAgent.id
+                  )
+                }
+              />
+            );
+          })}
+        </div>
+        {expanded && (
+          <SubAgentCard
+            subAgent={expanded}
+            getSubagentMessages={getSubagentMessages}
+            subagentRuns={subagentRuns}
+            actionRequestsMap={actionRequestsMap}
+            reviewConfigsMap={reviewConfigsMap}
+            onResumeInterrupt={onResumeInterrupt}
+            stream={stream}
+            graphId={graphId}
+            isLoading={isLoading}
+            onRerun={onRerun}
+          />
+        )}
+      </div>
+    );
+  }
+);
+
+SubAgentLanes.displayName = "SubAgentLanes";
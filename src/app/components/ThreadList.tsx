@@ -17,7 +17,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { UsageLine } from "@/app/components/UsageSummary";
 import type { ThreadItem } from "@/app/hooks/useThreads";
 import { useThreads } from "@/app/hooks/useThreads";
 
@@ -115,6 +121,7 @@ interface ThreadListProps {
   onMutateReady?: (mutate: () => void) => void;
   onClose?: () => void;
   onInterruptCountChange?: (count: number) => void;
+  assistantId?: string;
 }
 
 export function ThreadList({
@@ -122,6 +129,7 @@ export function ThreadList({
   onMutateReady,
   onClose,
   onInterruptCountChange,
+  assistantId,
 }: ThreadListProps) {
   const [currentThreadId] = useQueryState("threadId");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
@@ -129,6 +137,7 @@ export function ThreadList({
   const threads = useThreads({
     status: statusFilter === "all" ? undefined : statusFilter,
     limit: 20,
+    assistantId,
   });
 
   const flattened = useMemo(() => {
@@ -297,45 +306,62 @@ export function ThreadList({
                   </h4>
                   <div className="flex flex-col gap-1">
                     {groupThreads.map((thread) => (
-                      <button
+                      <Tooltip
                         key={thread.id}
-                        type="button"
-                        onClick={() => onThreadSelect(thread.id)}
-                        className={cn(
-                          "grid w-full cursor-pointer items-center gap-3 rounded-lg px-3 py-3 text-left transition-colors duration-200",
-                          "hover:bg-accent",
-                          currentThreadId === thread.id
-                            ? "border border-primary bg-accent hover:bg-accent"
-                            : "border border-transparent bg-transparent"
-                        )}
-                        aria-current={currentThreadId === thread.id}
+                        delayDuration={500}
                       >
-                        <div className="min-w-0 flex-1">
-                          {/* Title + Timestamp Row */}
-                          <div className="mb-1 flex items-center justify-between">
-                            <h3 className="truncate text-sm font-semibold">
-                              {thread.title}
-                            </h3>
-                            <span className="ml-2 flex-shrink-0 text-xs text-muted-foreground">
-                              {formatTime(thread.updatedAt)}
-                            </span>
-                          </div>
-                          {/* Description + Status Row */}
-                          <div className="flex items-center justify-between">
-                            <p className="flex-1 truncate text-sm text-muted-foreground">
-                              {thread.description}
-                            </p>
-                            <div className="ml-2 flex-shrink-0">
-                              <div
-                                className={cn(
-                                  "h-2 w-2 rounded-full",
-                                  getThreadColor(thread.status)
-                                )}
-                              />
+                        <TooltipTrigger asChild>
+                          <button
+                            type="button"
+                            onClick={() => onThreadSelect(thread.id)}
+                            className={cn(
+                              "grid w-full cursor-pointer items-center gap-3 rounded-lg px-3 py-3 text-left transition-colors duration-200",
+                              "hover:bg-accent",
+                              currentThreadId === thread.id
+                                ? "border border-primary bg-accent hover:bg-accent"
+                                : "border border-transparent bg-transparent"
+                            )}
+                            aria-current={currentThreadId === thread.id}
+                          >
+                            <div className="min-w-0 flex-1">
+                              {/* Title + Timestamp Row */}
+                              <div className="mb-1 flex items-center justify-between">
+                                <h3 className="truncate text-sm font-semibold">
+                                  {thread.title}
+                                </h3>
+                                <span className="ml-2 flex-shrink-0 text-xs text-muted-foreground">
+                                  {formatTime(thread.updatedAt)}
+                                </span>
+                              </div>
+                              {/* Description + Status Row */}
+                              <div className="flex items-center justify-between">
+                                <p className="flex-1 truncate text-sm text-muted-foreground">
+                                  {thread.description}
+                                </p>
+                                <div className="ml-2 flex-shrink-0">
+                                  <div
+                                    className={cn(
+                                      "h-2 w-2 rounded-full",
+                                      getThreadColor(thread.status)
+                                    )}
+                                  />
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                        </div>
-                      </button>
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent
+                          side="right"
+                          className="max-w-xs"
+                        >
+                          <p className="font-medium">{thread.title}</p>
+                          <UsageLine
+                            usage={thread.usage}
+                            label="Usage"
+                            className="text-primary-foreground/80"
+                          />
+                        </TooltipContent>
+                      </Tooltip>
                     ))}
                   </div>
                 </div>
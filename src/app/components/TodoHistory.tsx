@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useMemo } from "react";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { useQueryState } from "nuqs";
+import { Loader2 } from "lucide-react";
+import { useClient } from "@/providers/ClientProvider";
+import { useChatContext } from "@/providers/ChatProvider";
+import { cn } from "@/lib/utils";
+import {
+  getPlanRevisions,
+  type PlanChange,
+  type PlanChangeKind,
+  type PlanTodo,
+} from "@/lib/todoHistory";
+
+// Checkpoints read to rebuild the plan history
+const HISTORY_LIMIT = 500;
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+const CHANGE_STYLES: Record<PlanChangeKind, string> = {
+  added: "border-green-500 bg-green-50 dark:bg-green-950/30",
+  removed: "border-red-500 bg-red-50 text-muted-foreground dark:bg-red-950/30",
+  reworded: "border-amber-500 bg-amber-50 dark:bg-amber-950/30",
+  status: "border-blue-500 bg-blue-50 dark:bg-blue-950/30",
+  unchanged: "border-transparent text-muted-foreground",
+};
+
+const CHANGE_LABELS: Record<PlanChangeKind, string> = {
+  added: "added",
+  removed: "removed",
+  reworded: "reworded",
+  status: "status changed",
+  unchanged: "unchanged",
+};
+
+function statusLabel(todo: PlanTodo): string {
+  return STATUS_LABELS[todo.status] ?? todo.status;
+}
+
+function PlanChangeRow({ change }: { change: PlanChange }) {
+  const { kind, todo, previous } = change;
+  const statusChanged = !!previous && previous.status !== todo.status;
+
+  return (
+    <li
+      className={cn(
+        "rounded-sm border-l-2 px-2 py-1 text-sm",
+        CHANGE_STYLES[kind]
+      )}
+    >
+      {kind === "reworded" && previous && (
+        <p className="break-words text-xs text-muted-foreground line-through">
+          {previous.content}
+        </p>
+      )}
+      <p className={cn("break-words", kind === "removed" && "line-through")}>
+        {todo.content}
+      </p>
+      <p className="text-[10px] uppercase tracking-wider text-tertiary">
+        {statusChanged
+          ? `${statusLabel(previous)} → ${statusLabel(todo)}`
+          : statusLabel(todo)}
+      </p>
+    </li>
+  );
+}
+
+export const TodoHistory = React.memo(() => {
+  const client = useClient();
+  const [threadId] = useQueryState("threadId");
+  const { todos } = useChatContext();
+
+  // Refetched whenever the current plan changes
+  const history = useSWR(
+    threadId ? ["todo-history", threadId, JSON.stringify(todos)] : null,
+    ([, id]) =>
+      client.threads.getHistory<{ todos?: PlanTodo[] }>(id, {
+        limit: HISTORY_LIMIT,
+      }),
+    { keepPreviousData: true, revalidateOnFocus: false }
+  );
+
+  // Newest revision first
+  const revisions = useMemo(
+    () => (history.data ? getPlanRevisions(history.data).reverse() : []),
+    [history.data]
+  );
+
+  if (history.error) {
+    return (
+      <p className="py-3 text-xs text-destructive">
+        Failed to load the plan history: {String(history.error)}
+      </p>
+    );
+  }
+
+  if (!history.data) {
+    return (
+      <div className="flex items-center gap-2 py-3 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading plan history…
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="py-3 text-xs text-muted-foreground">
+        No plan revisions yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 pb-4">
+      {history.data.length >= HISTORY_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing revisions from the latest {HISTORY_LIMIT} checkpoints
+        </p>
+      )}
+      {revisions.map((revision, index) => {
+        const counts = revision.changes.reduce<
+          Partial<Record<PlanChangeKind, number>>
+        >(
+          (acc, change) => ({
+            ...acc,
+            [change.kind]: (acc[change.kind] ?? 0) + 1,
+          }),
+          {}
+        );
+        return (
+          <section key={revision.checkpointId}>
+            <div className="mb-1 flex flex-wrap items-baseline gap-x-2 text-xs">
+              <h3 className="font-semibold">
+                Revision {revisions.length - index}
+              </h3>
+              {revision.createdAt && (
+                <span className="tabular-nums text-muted-foreground">
+                  {format(new Date(revision.createdAt), "MMM d, HH:mm:ss")}
+                </span>
+              )}
+              <span className="text-muted-foreground">
+                {(["added", "removed", "reworded", "status"] as const)
+                  .filter((kind) => counts[kind])
+                  .map((kind) => `${counts[kind]} ${CHANGE_LABELS[kind]}`)
+                  .join(" · ")}
+              </span>
+            </div>
+            <ul className="flex flex-col gap-1">
+              {revision.changes.map((change, changeIndex) => (
+                <PlanChangeRow
+                  key={`${change.kind}_${change.todo.id}_${changeIndex}`}
+                  change={change}
+                />
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+});
+
+TodoHistory.displayName = "TodoHistory";
@@ -15,6 +15,8 @@ import { ToolCall, ActionRequest, ReviewConfig } from "@/app/types/types";
 import { cn } from "@/lib/utils";
 import { LoadExternalComponent } from "@langchain/langgraph-sdk/react-ui";
 import { ToolApprovalInterrupt } from "@/app/components/ToolApprovalInterrupt";
+import { getToolCallElementId } from "@/lib/timeline";
+import { parseToolError } from "@/app/utils/utils";
 
 interface ToolCallBoxProps {
   toolCall: ToolCall;
@@ -54,6 +56,14 @@ export const ToolCallBox = React.memo<ToolCallBoxProps>(
       };
     }, [toolCall]);
 
+    const toolError = useMemo(
+      () =>
+        status === "error" && typeof result === "string"
+          ? parseToolError(result)
+          : null,
+      [status, result]
+    );
+
     const statusIcon = useMemo(() => {
       switch (status) {
         case "completed":
@@ -104,9 +114,11 @@ export const ToolCallBox = React.memo<ToolCallBoxProps>(
 
     return (
       <div
+        id={getToolCallElementId(toolCall.id)}
         className={cn(
           "w-full overflow-hidden rounded-lg border-none shadow-none outline-none transition-colors duration-200 hover:bg-accent",
-          isExpanded && hasContent && "bg-accent"
+          isExpanded && hasContent && "bg-accent",
+          toolError && "bg-destructive/5"
         )}
       >
         <Button
@@ -119,11 +131,21 @@ export const ToolCallBox = React.memo<ToolCallBoxProps>(
           disabled={!hasContent}
         >
           <div className="flex w-full items-center justify-between gap-2">
-            <div className="flex items-center gap-2">
+            <div className="flex min-w-0 items-center gap-2">
               {statusIcon}
-              <span className="text-[15px] font-medium tracking-[-0.6px] text-foreground">
+              <span
+                className={cn(
+                  "shrink-0 text-[15px] font-medium tracking-[-0.6px] text-foreground",
+                  toolError && "text-destructive"
+                )}
+              >
                 {name}
               </span>
+              {toolError && !isExpanded && (
+                <span className="truncate text-xs font-normal text-destructive/80">
+                  {toolError.summary}
+                </span>
+              )}
             </div>
             {hasContent &&
               (isExpanded ? (
@@ -206,7 +228,27 @@ export const ToolCallBox = React.memo<ToolCallBoxProps>(
                     </div>
                   </div>
                 )}
-                {result && (
+                {toolError && (
+                  <div className="mt-4">
+                    <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-destructive">
+                      Error
+                    </h4>
+                    <p className="whitespace-pre-wrap break-words rounded-sm border border-destructive/40 bg-destructive/5 p-2 font-mono text-xs leading-6 text-destructive">
+                      {toolError.summary}
+                    </p>
+                    {toolError.traceback && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-xs text-muted-foreground">
+                          Traceback
+                        </summary>
+                        <pre className="m-0 mt-1 max-h-80 overflow-auto whitespace-pre-wrap break-all rounded-sm border border-border bg-muted/40 p-2 font-mono text-xs leading-6 text-foreground">
+                          {toolError.traceback}
+                        </pre>
+                      </details>
+                    )}
+                  </div>
+                )}
+                {result && !toolError?.traceback && (
                   <div className="mt-4">
                     <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
                       Result
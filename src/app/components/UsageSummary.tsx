@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useChatContext } from "@/providers/ChatProvider";
+import { usePriceTable } from "@/app/hooks/usePriceTable";
+import { PriceTableDialog } from "@/app/components/PriceTableDialog";
+import { cn } from "@/lib/utils";
+import {
+  estimateCost,
+  formatCost,
+  formatTokens,
+  getTotalUsage,
+  type UsageByModel,
+} from "@/lib/usage";
+
+function useUsageTotals(byModel: UsageByModel) {
+  const { priceTable } = usePriceTable();
+  return useMemo(
+    () => ({
+      total: getTotalUsage(byModel),
+      estimate: estimateCost(byModel, priceTable),
+    }),
+    [byModel, priceTable]
+  );
+}
+
+interface UsageLineProps {
+  usage: UsageByModel;
+  label?: string;
+  className?: string;
+}
+
+// Compact "label · in · cached · out · cost" line for messages and runs
+export const UsageLine = React.memo<UsageLineProps>(
+  ({ usage, label, className }) => {
+    const { total, estimate } = useUsageTotals(usage);
+    const models = Object.keys(usage);
+    if (models.length === 0) return null;
+
+    const parts = [
+      label ?? models.join(", "),
+      `${formatTokens(total.inputTokens)} in`,
+      total.cacheReadTokens > 0 &&
+        `${formatTokens(total.cacheReadTokens)} cached`,
+      total.cacheCreationTokens > 0 &&
+        `${formatTokens(total.cacheCreationTokens)} cache write`,
+      `${formatTokens(total.outputTokens)} out`,
+      estimate.unpriced.length < models.length &&
+        `${estimate.unpriced.length > 0 ? "≥" : ""}${formatCost(
+          estimate.cost
+        )}`,
+    ].filter(Boolean);
+
+    return (
+      <p
+        className={cn("text-xs text-muted-foreground", className)}
+        title={
+          estimate.unpriced.length > 0
+            ? `No price for: ${estimate.unpriced.join(", ")}`
+            : undefined
+        }
+      >
+        {parts.join(" · ")}
+      </p>
+    );
+  }
+);
+
+UsageLine.displayName = "UsageLine";
+
+export const ThreadUsageButton = React.memo(() => {
+  const { usage } = useChatContext();
+  const { total, estimate } = useUsageTotals(usage);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const totalTokens = total.inputTokens + total.outputTokens;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setDialogOpen(true)}
+        className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+        title="Token usage and cost for this thread"
+      >
+        <Coins className="mr-2 h-4 w-4" />
+        {formatTokens(totalTokens)} tokens
+        {estimate.cost > 0 && (
+          <span className="ml-1 text-muted-foreground">
+            · {estimate.unpriced.length > 0 ? "≥" : ""}
+            {formatCost(estimate.cost)}
+          </span>
+        )}
+      </Button>
+      <PriceTableDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        usage={usage}
+      />
+    </>
+  );
+});
+
+ThreadUsageButton.displayName = "ThreadUsageButton";
@@ -0,0 +1,77 @@
+import useSWRInfinite from "swr/infinite";
+import type { Assistant } from "@langchain/langgraph-sdk";
+import { Client } from "@langchain/langgraph-sdk";
+import { getConfig } from "@/lib/config";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export function useAssistants(props: {
+  graphId?: string;
+  name?: string;
+  limit?: number;
+}) {
+  const pageSize = props.limit || DEFAULT_PAGE_SIZE;
+
+  return useSWRInfinite(
+    (pageIndex: number, previousPageData: Assistant[] | null) => {
+      const config = getConfig();
+      const apiKey =
+        config?.langsmithApiKey ||
+        process.env.NEXT_PUBLIC_LANGSMITH_API_KEY ||
+        "";
+
+      if (!config || !props.graphId) {
+        return null;
+      }
+
+      // If the previous page returned no items, we've reached the end
+      if (previousPageData && previousPageData.length === 0) {
+        return null;
+      }
+
+      return {
+        kind: "assistants" as const,
+        pageIndex,
+        pageSize,
+        deploymentUrl: config.deploymentUrl,
+        apiKey,
+        graphId: props.graphId,
+        name: props.name || undefined,
+      };
+    },
+    async ({
+      deploymentUrl,
+      apiKey,
+      graphId,
+      name,
+      pageIndex,
+      pageSize,
+    }: {
+      kind: "assistants";
+      pageIndex: number;
+      pageSize: number;
+      deploymentUrl: string;
+      apiKey: string;
+      graphId: string;
+      name?: string;
+    }) => {
+      const client = new Client({
+        apiUrl: deploymentUrl,
+        defaultHeaders: apiKey ? { "X-Api-Key": apiKey } : {},
+      });
+
+      return client.assistants.search({
+        graphId,
+        name,
+        limit: pageSize,
+        offset: pageIndex * pageSize,
+        sortBy: "updated_at",
+        sortOrder: "desc",
+      });
+    },
+    {
+      revalidateFirstPage: true,
+      revalidateOnFocus: false,
+    }
+  );
+}
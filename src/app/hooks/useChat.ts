@@ -1,17 +1,60 @@
 "use client";
 
-import { useCallback, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useStream } from "@langchain/langgraph-sdk/react";
 import {
   type Message,
   type Assistant,
   type Checkpoint,
+  type ThreadState,
 } from "@langchain/langgraph-sdk";
 import { v4 as uuidv4 } from "uuid";
 import type { UseStreamThread } from "@langchain/langgraph-sdk/react";
-import type { TodoItem } from "@/app/types/types";
+import type {
+  MultitaskStrategy,
+  RunCancelAction,
+  TodoItem,
+} from "@/app/types/types";
+import {
+  getGraphNodeId,
+  getSourceNode,
+  isToolMessageError,
+} from "@/app/utils/utils";
 import { useClient } from "@/providers/ClientProvider";
+import {
+  buildMessageContent,
+  getAttachmentFiles,
+  replaceMessageText,
+  type Attachment,
+} from "@/lib/attachments";
+import { summarizeUsage } from "@/lib/usage";
+import {
+  getNamespaceLane,
+  getTaskToolCalls,
+  parseEventTime,
+  type TimelineSpan,
+} from "@/lib/timeline";
+import { StreamEventLog, withStreamEventLog } from "@/lib/streamEvents";
+import { findFirstSeenState } from "@/lib/history";
+import {
+  cancelOpenSubagents,
+  findSubagentMessages,
+  finishSubagents,
+  getSubagentKey,
+  queueSubagents,
+  recordSubagentTask,
+  restoreSubagentActivity,
+  startSubagents,
+  type SubagentRuns,
+} from "@/lib/subagents";
 import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import {
+  DEFAULT_RECURSION_LIMIT,
+  getRunSettings,
+  saveRunSettings,
+  type RunSettings,
+} from "@/lib/runSettings";
 
 export type StateType = {
   messages: Message[];
@@ -25,6 +68,16 @@ export type StateType = {
   ui?: any;
 };
 
+// A message written during a run, held until the run finishes
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  attachments: Attachment[];
+}
+
+// Shared so memoized messages keep their props while no subagent has run
+const NO_SUBAGENT_RUNS: SubagentRuns = {};
+
 export function useChat({
   activeAssistant,
   onHistoryRevalidate,
@@ -37,12 +90,106 @@ export function useChat({
   const [threadId, setThreadId] = useQueryState("threadId");
   const client = useClient();
 
+  // Per-thread overrides for config/context, edited in the Run settings dialog
+  const [runSettings, setRunSettingsState] = useState<RunSettings>(() =>
+    getRunSettings(threadId)
+  );
+  const runSettingsRef = useRef(runSettings);
+  runSettingsRef.current = runSettings;
+
+  useEffect(() => {
+    setRunSettingsState(getRunSettings(threadId));
+  }, [threadId]);
+
+  const setRunSettings = useCallback(
+    (settings: RunSettings) => {
+      setRunSettingsState(settings);
+      if (threadId) saveRunSettings(threadId, settings);
+    },
+    [threadId]
+  );
+
+  // Execution spans for the timeline, keyed by threadId
+  const [timelineByThread, setTimelineByThread] = useState<
+    Record<string, TimelineSpan[]>
+  >({});
+
+  // Subagent lifecycles keyed by threadId -> task tool call ID
+  const [subagentRunsByThread, setSubagentRunsByThread] = useState<
+    Record<string, SubagentRuns>
+  >({});
+
+  // Settings and spans recorded before the first message move to the thread
+  // once created
+  const handleThreadId = useCallback(
+    (id: string) => {
+      saveRunSettings(id, runSettingsRef.current);
+      setTimelineByThread(({ __new__: pending, ...rest }) =>
+        pending ? { ...rest, [id]: [...(rest[id] ?? []), ...pending] } : rest
+      );
+      setSubagentRunsByThread(({ __new__: pending, ...rest }) =>
+        pending ? { ...rest, [id]: { ...rest[id], ...pending } } : rest
+      );
+      // Subagent activity of the first run was captured before the ID existed
+      [
+        subagentMessageIdsByThread,
+        subagentMessagesByThread,
+        subagentTasksByThread,
+      ].forEach(({ current: byThread }: { current: Map<string, unknown> }) => {
+        if (byThread.has("__new__") && !byThread.has(id)) {
+          byThread.set(id, byThread.get("__new__"));
+          byThread.delete("__new__");
+        }
+      });
+      setThreadId(id);
+    },
+    [setThreadId]
+  );
+
+  const runConfig = useMemo(() => {
+    const assistantConfig = activeAssistant?.config ?? {};
+    return {
+      ...assistantConfig,
+      recursion_limit: runSettings.recursionLimit ?? DEFAULT_RECURSION_LIMIT,
+      configurable: {
+        ...(assistantConfig.configurable ?? {}),
+        ...runSettings.configurable,
+      },
+    };
+  }, [activeAssistant?.config, runSettings]);
+
+  const runContext = useMemo(() => {
+    const context = {
+      ...(activeAssistant?.context ?? {}),
+      ...runSettings.context,
+    };
+    return Object.keys(context).length > 0 ? context : undefined;
+  }, [activeAssistant?.context, runSettings]);
+
   // Track message IDs that come from subagents, keyed by threadId
-  const subagentMessageIdsByThread = useRef<Map<string, Set<string>>>(new Map());
+  const subagentMessageIdsByThread = useRef<Map<string, Set<string>>>(
+    new Map()
+  );
 
-  // Store subagent messages keyed by threadId -> toolCallId -> messages
+  // Store subagent messages keyed by threadId -> subgraph task ID -> messages
   // This persists across thread switches during the session
-  const subagentMessagesByThread = useRef<Map<string, Map<string, any[]>>>(new Map());
+  const subagentMessagesByThread = useRef<Map<string, Map<string, any[]>>>(
+    new Map()
+  );
+
+  // Task tool calls executed by each tool node run, keyed by threadId -> task ID
+  const subagentTasksByThread = useRef<Map<string, Map<string, string[]>>>(
+    new Map()
+  );
+
+  // In debug mode every run pauses before the tools node
+  const [debugMode, setDebugMode] = useState(false);
+
+  // Graph nodes currently executing, fed by debug task events
+  const [activeNodes, setActiveNodes] = useState<string[]>([]);
+
+  // Node that produced each top-level message, recorded from update events
+  const messageNodes = useRef<Map<string, string>>(new Map());
 
   // Get current thread's subagent data
   const currentThreadId = threadId ?? "__new__";
@@ -54,31 +201,123 @@ export function useChat({
   if (!subagentMessagesByThread.current.has(currentThreadId)) {
     subagentMessagesByThread.current.set(currentThreadId, new Map());
   }
+  if (!subagentTasksByThread.current.has(currentThreadId)) {
+    subagentTasksByThread.current.set(currentThreadId, new Map());
+  }
 
   // These refs point to current thread's data for easy access
-  const subagentMessageIds = { current: subagentMessageIdsByThread.current.get(currentThreadId)! };
-  const subagentMessages = { current: subagentMessagesByThread.current.get(currentThreadId)! };
+  const subagentMessageIds = {
+    current: subagentMessageIdsByThread.current.get(currentThreadId)!,
+  };
+  const subagentMessages = {
+    current: subagentMessagesByThread.current.get(currentThreadId)!,
+  };
+  const subagentTasks = {
+    current: subagentTasksByThread.current.get(currentThreadId)!,
+  };
+
+  const updateTimeline = useCallback(
+    (update: (spans: TimelineSpan[]) => TimelineSpan[]) =>
+      setTimelineByThread((prev) => {
+        const spans = prev[currentThreadId] ?? [];
+        const next = update(spans);
+        return next === spans ? prev : { ...prev, [currentThreadId]: next };
+      }),
+    [currentThreadId]
+  );
+
+  const updateSubagentRuns = useCallback(
+    (update: (runs: SubagentRuns) => SubagentRuns) =>
+      setSubagentRunsByThread((prev) => {
+        const runs = prev[currentThreadId] ?? {};
+        const next = update(runs);
+        return next === runs ? prev : { ...prev, [currentThreadId]: next };
+      }),
+    [currentThreadId]
+  );
+
+  // Marks the subagents whose namespace an event came from as running
+  const startSubagentsAt = (namespace: string[]) => {
+    const toolCallIds = subagentTasks.current.get(getSubagentKey(namespace));
+    if (!toolCallIds) return;
+    const now = Date.now();
+    updateSubagentRuns((runs) => startSubagents(runs, toolCallIds, now));
+  };
+
+  // Set when a run is created so it can be cancelled on the server
+  const activeRunRef = useRef<{ threadId: string; runId: string } | null>(null);
+
+  // Set when a run is stopped or fails, so queued messages wait for the user
+  // instead of going out after a run they may have been written for
+  const [queueHeld, setQueueHeld] = useState(false);
+
+  // Raw stream events for the inspector, recorded as the client receives them
+  const [eventLog] = useState(() => new StreamEventLog());
+  const streamClient = useMemo(
+    () => withStreamEventLog(client, eventLog),
+    [client, eventLog]
+  );
 
   const stream = useStream<StateType>({
     assistantId: activeAssistant?.assistant_id || "",
-    client: client ?? undefined,
+    client: streamClient,
     reconnectOnMount: true,
     threadId: threadId ?? null,
-    onThreadId: setThreadId,
+    onThreadId: handleThreadId,
     defaultHeaders: { "x-auth-scheme": "langsmith" },
     fetchStateHistory: true, // Required for history feature
-    // Revalidate thread list when stream finishes, errors, or creates new thread
-    onFinish: onHistoryRevalidate,
-    onError: onHistoryRevalidate,
-    onCreated: onHistoryRevalidate,
+    // Revalidate thread list when stream finishes, errors, or creates new thread.
+    // The run is forgotten once its stream ends, so a later Stop asks the
+    // server which run is active instead of cancelling a finished one.
+    onFinish: () => {
+      activeRunRef.current = null;
+      onHistoryRevalidate?.();
+    },
+    onError: () => {
+      activeRunRef.current = null;
+      setQueueHeld(true);
+      onHistoryRevalidate?.();
+    },
+    onStop: () => {
+      activeRunRef.current = null;
+    },
+    onCreated: (run) => {
+      activeRunRef.current = { threadId: run.thread_id, runId: run.run_id };
+      onHistoryRevalidate?.();
+    },
     thread: thread,
     // Track subagent messages by extracting IDs from streaming events with namespace
     onUpdateEvent: (data, options) => {
+      // Close spans whose task result was missed once their node reports back
+      const lane = getNamespaceLane(options.namespace);
+      const updatedNodes = Object.keys(data as Record<string, any>);
+      const isReported = (span: TimelineSpan) =>
+        span.end === undefined &&
+        span.lane === lane &&
+        updatedNodes.includes(span.node);
+      const now = Date.now();
+      updateTimeline((spans) =>
+        spans.some(isReported)
+          ? spans.map((span) =>
+              isReported(span) ? { ...span, end: now } : span
+            )
+          : spans
+      );
+
+      if (!options.namespace || options.namespace.length === 0) {
+        // Root updates are keyed by the node that produced them
+        Object.entries(data as Record<string, any>).forEach(
+          ([node, update]) => {
+            update?.messages?.forEach?.((msg: any) => {
+              if (msg?.id) messageNodes.current.set(msg.id, node);
+            });
+          }
+        );
+      }
       if (options.namespace && options.namespace.length > 0) {
-        // Extract tool call ID from namespace (format: "tools:{tool_call_id}")
-        const namespaceStr = options.namespace[0];
-        const toolCallIdMatch = namespaceStr.match(/^tools:(.+)$/);
-        const toolCallId = toolCallIdMatch ? toolCallIdMatch[1] : namespaceStr;
+        startSubagentsAt(options.namespace);
+        // Keyed by the innermost subgraph, see findSubagentMessages
+        const subagentKey = getSubagentKey(options.namespace);
 
         // Extract messages from update data
         // The data structure can be data.model.messages or data.messages depending on the event
@@ -87,16 +326,16 @@ export function useChat({
         if (messages && Array.isArray(messages)) {
           messages.forEach((msg: any, idx: number) => {
             // Generate a fallback ID for messages without one
-            const msgId = msg.id || `${toolCallId}-msg-${idx}-${Date.now()}`;
+            const msgId = msg.id || `${subagentKey}-msg-${idx}-${Date.now()}`;
 
             subagentMessageIds.current.add(msgId);
 
-            // Store the full message for display, keyed by tool call ID
-            if (!subagentMessages.current.has(toolCallId)) {
-              subagentMessages.current.set(toolCallId, []);
+            // Store the full message for display, keyed by subgraph
+            if (!subagentMessages.current.has(subagentKey)) {
+              subagentMessages.current.set(subagentKey, []);
             }
             // Only add if not already present (avoid duplicates)
-            const existing = subagentMessages.current.get(toolCallId)!;
+            const existing = subagentMessages.current.get(subagentKey)!;
             if (!existing.find((m: any) => m.id === msgId)) {
               // Ensure the message has an id for later lookup
               const msgWithId = { ...msg, id: msgId };
@@ -107,10 +346,76 @@ export function useChat({
       }
     },
     onDebugEvent: (data, options) => {
+      const event = data as Record<string, any>;
+      if (
+        (event.type === "task" || event.type === "task_result") &&
+        event.payload?.name
+      ) {
+        const nodeId = getGraphNodeId(options.namespace, event.payload.name);
+        setActiveNodes((prev) =>
+          event.type === "task"
+            ? prev.includes(nodeId)
+              ? prev
+              : [...prev, nodeId]
+            : prev.filter((id) => id !== nodeId)
+        );
+
+        const { id, name, input, error } = event.payload;
+        const time = parseEventTime(event.timestamp);
+        // Links the subgraph started by this tool node run to its task calls
+        if (id && event.type === "task" && name === "tools") {
+          if (recordSubagentTask(subagentTasks.current, id, input)) {
+            const toolCallIds = subagentTasks.current.get(id)!;
+            updateSubagentRuns((runs) =>
+              queueSubagents(runs, toolCallIds, time)
+            );
+          }
+        } else if (id && name === "tools" && subagentTasks.current.has(id)) {
+          const toolCallIds = subagentTasks.current.get(id)!;
+          updateSubagentRuns((runs) =>
+            finishSubagents(
+              runs,
+              toolCallIds,
+              time,
+              error ? String(error) : undefined
+            )
+          );
+        }
+        if (id && event.type === "task") {
+          updateTimeline((spans) =>
+            spans.some((span) => span.id === id)
+              ? spans
+              : [
+                  ...spans,
+                  {
+                    id,
+                    lane: getNamespaceLane(options.namespace),
+                    node: name,
+                    start: time,
+                    // Only tool nodes get their input's calls; a model node's
+                    // input holds the calls of the previous step
+                    toolCalls: name === "tools" ? getTaskToolCalls(input) : [],
+                  },
+                ]
+          );
+        } else if (id) {
+          updateTimeline((spans) =>
+            spans.map((span) =>
+              span.id === id
+                ? {
+                    ...span,
+                    end: time,
+                    error: error ? String(error) : undefined,
+                  }
+                : span
+            )
+          );
+        }
+      }
+
       if (options.namespace && options.namespace.length > 0) {
-        const namespaceStr = options.namespace[0];
-        const toolCallIdMatch = namespaceStr.match(/^tools:(.+)$/);
-        const toolCallId = toolCallIdMatch ? toolCallIdMatch[1] : namespaceStr;
+        startSubagentsAt(options.namespace);
+        const subagentKey = getSubagentKey(options.namespace);
 
         const debugData = data as Record<string, any>;
 
@@ -124,13 +429,14 @@ export function useChat({
         for (const messages of messageSources) {
           if (Array.isArray(messages)) {
             messages.forEach((msg: any, idx: number) => {
-              const msgId = msg.id || `debug-${toolCallId}-msg-${idx}-${Date.now()}`;
+              const msgId =
+                msg.id || `debug-${subagentKey}-msg-${idx}-${Date.now()}`;
               subagentMessageIds.current.add(msgId);
 
-              if (!subagentMessages.current.has(toolCallId)) {
-                subagentMessages.current.set(toolCallId, []);
+              if (!subagentMessages.current.has(subagentKey)) {
+                subagentMessages.current.set(subagentKey, []);
               }
-              const existing = subagentMessages.current.get(toolCallId)!;
+              const existing = subagentMessages.current.get(subagentKey)!;
               if (!existing.find((m: any) => m.id === msgId)) {
                 existing.push({ ...msg, id: msgId });
               }
@@ -144,10 +450,10 @@ export function useChat({
           const msgId = msg.id || `debug-tool-${Date.now()}`;
           subagentMessageIds.current.add(msgId);
 
-          if (!subagentMessages.current.has(toolCallId)) {
-            subagentMessages.current.set(toolCallId, []);
+          if (!subagentMessages.current.has(subagentKey)) {
+            subagentMessages.current.set(subagentKey, []);
           }
-          const existing = subagentMessages.current.get(toolCallId)!;
+          const existing = subagentMessages.current.get(subagentKey)!;
           if (!existing.find((m: any) => m.id === msgId)) {
             existing.push({ ...msg, id: msgId });
           }
@@ -156,23 +462,337 @@ export function useChat({
     },
   });
 
+  // Bumped once subagent activity of a reloaded thread has been restored
+  const [subagentRevision, setSubagentRevision] = useState(0);
+  const restoredThreads = useRef<Set<string>>(new Set());
+  const hasTaskCalls = stream.messages.some(
+    (message) =>
+      message.type === "ai" &&
+      message.tool_calls?.some((call) => call.name === "task")
+  );
+
+  useEffect(() => {
+    if (
+      !threadId ||
+      !hasTaskCalls ||
+      stream.isLoading ||
+      stream.isThreadLoading
+    ) {
+      return;
+    }
+    if (restoredThreads.current.has(threadId)) return;
+    restoredThreads.current.add(threadId);
+    restoreSubagentActivity(
+      client,
+      threadId,
+      subagentMessagesByThread.current.get(threadId)!,
+      subagentTasksByThread.current.get(threadId)!
+    )
+      .then((runs) => {
+        // Runs seen live in this session take precedence
+        setSubagentRunsByThread((prev) => ({
+          ...prev,
+          [threadId]: { ...runs, ...prev[threadId] },
+        }));
+        setSubagentRevision((revision) => revision + 1);
+      })
+      .catch((error) => {
+        // Allow another attempt when the thread is opened again
+        restoredThreads.current.delete(threadId);
+        toast.error(`Failed to restore subagent activity: ${error}`);
+      });
+  }, [
+    client,
+    threadId,
+    hasTaskCalls,
+    stream.isLoading,
+    stream.isThreadLoading,
+  ]);
+
+  // Every message of the thread, including subagent messages captured from
+  // subgraph events that never reach the parent's state
+  const threadMessages = useMemo(
+    () => [
+      ...stream.messages,
+      ...Array.from(
+        subagentMessagesByThread.current.get(currentThreadId)?.values() ?? []
+      ).flat(),
+    ],
+    // subagentRevision picks up activity restored into the refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [stream.messages, currentThreadId, subagentRevision]
+  );
+
+  const usage = useMemo(() => summarizeUsage(threadMessages), [threadMessages]);
+
+  const getSubagentMessages = useCallback(
+    (toolCallId: string, description?: string) =>
+      findSubagentMessages(
+        toolCallId,
+        description,
+        subagentMessagesByThread.current.get(currentThreadId) ?? new Map(),
+        subagentTasksByThread.current.get(currentThreadId) ?? new Map()
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [currentThreadId, subagentRevision]
+  );
+
+  // Tool calls whose result was an error, for the main agent and subagents
+  const failedToolCallIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          threadMessages
+            .filter(isToolMessageError)
+            .map((message) => message.tool_call_id)
+            .filter((id): id is string => !!id)
+        )
+      ),
+    [threadMessages]
+  );
+
+  // Nothing is executing once the stream settles, whatever events were missed
+  useEffect(() => {
+    if (stream.isLoading) return;
+    setActiveNodes([]);
+    const now = Date.now();
+    updateTimeline((spans) =>
+      spans.some((span) => span.end === undefined)
+        ? spans.map((span) =>
+            span.end === undefined ? { ...span, end: now } : span
+          )
+        : spans
+    );
+  }, [stream.isLoading, updateTimeline]);
+
+  // Subagents still open once the stream settles did not finish, unless the
+  // run is waiting for human input
+  useEffect(() => {
+    if (stream.isLoading || stream.interrupt) return;
+    const now = Date.now();
+    updateSubagentRuns((runs) => cancelOpenSubagents(runs, now));
+  }, [stream.isLoading, stream.interrupt, updateSubagentRuns]);
+
   const sendMessage = useCallback(
-    (content: string) => {
-      const newMessage: Message = { id: uuidv4(), type: "human", content };
+    (
+      content: string,
+      attachments: Attachment[] = [],
+      multitaskStrategy?: MultitaskStrategy
+    ) => {
+      const newMessage: Message = {
+        id: uuidv4(),
+        type: "human",
+        content: buildMessageContent(content, attachments),
+      };
+      const attachedFiles = getAttachmentFiles(attachments);
+      const hasAttachedFiles = Object.keys(attachedFiles).length > 0;
       stream.submit(
-        { messages: [newMessage] },
+        {
+          messages: [newMessage],
+          ...(hasAttachedFiles ? { files: attachedFiles } : {}),
+        },
         {
           optimisticValues: (prev) => ({
             messages: [...(prev.messages ?? []), newMessage],
+            ...(hasAttachedFiles
+              ? { files: { ...(prev.files ?? {}), ...attachedFiles } }
+              : {}),
           }),
-          config: { ...(activeAssistant?.config ?? {}), recursion_limit: 100 },
+          config: runConfig,
+          context: runContext,
           streamSubgraphs: true,
+          // Runs sent alongside another one start from the thread's latest
+          // state, not the head loaded before that run began
+          ...(multitaskStrategy ? { multitaskStrategy, checkpoint: null } : {}),
+          ...(debugMode ? { interruptBefore: ["tools"] } : {}),
         }
       );
       // Update thread list immediately when sending a message
       onHistoryRevalidate?.();
     },
-    [stream, activeAssistant?.config, onHistoryRevalidate]
+    [stream, runConfig, runContext, debugMode, onHistoryRevalidate]
+  );
+
+  // Runs joined on page load were not created here, so the server is asked
+  const getActiveRunId = useCallback(async () => {
+    if (!threadId) return undefined;
+    if (activeRunRef.current?.threadId === threadId) {
+      return activeRunRef.current.runId;
+    }
+    const [run] = await client.runs.list(threadId, {
+      status: "running",
+      limit: 1,
+    });
+    return run?.run_id;
+  }, [client, threadId]);
+
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+
+  // Queued messages belong to the thread they were written in
+  useEffect(() => {
+    setQueuedMessages([]);
+    setQueueHeld(false);
+  }, [threadId]);
+
+  const enqueueMessage = useCallback(
+    (content: string, attachments: Attachment[] = []) =>
+      setQueuedMessages((prev) => [
+        ...prev,
+        { id: uuidv4(), content, attachments },
+      ]),
+    []
+  );
+
+  const updateQueuedMessage = useCallback(
+    (id: string, content: string) =>
+      setQueuedMessages((prev) =>
+        prev.map((queued) =>
+          queued.id === id ? { ...queued, content } : queued
+        )
+      ),
+    []
+  );
+
+  const cancelQueuedMessage = useCallback(
+    (id: string) =>
+      setQueuedMessages((prev) => prev.filter((queued) => queued.id !== id)),
+    []
+  );
+
+  const releaseQueue = useCallback(() => setQueueHeld(false), []);
+
+  // Sends the next queued message once the run finishes, unless it stopped
+  // for human input or the queue is held
+  useEffect(() => {
+    if (
+      stream.isLoading ||
+      stream.interrupt ||
+      queueHeld ||
+      queuedMessages.length === 0
+    ) {
+      return;
+    }
+    const [next, ...rest] = queuedMessages;
+    setQueuedMessages(rest);
+    sendMessage(next.content, next.attachments, "enqueue");
+  }, [
+    stream.isLoading,
+    stream.interrupt,
+    queueHeld,
+    queuedMessages,
+    sendMessage,
+  ]);
+
+  // The client only starts a new stream once the current one ends, so the
+  // active run is cancelled first and the new run is sent with the same
+  // strategy in case the server still sees it running
+  const redirectRun = useCallback(
+    async (
+      content: string,
+      attachments: Attachment[],
+      strategy: RunCancelAction
+    ) => {
+      const runId = stream.isLoading ? await getActiveRunId() : undefined;
+      if (threadId && runId) {
+        await client.runs.cancel(threadId, runId, false, strategy);
+      }
+      sendMessage(content, attachments, strategy);
+    },
+    [client, threadId, stream.isLoading, getActiveRunId, sendMessage]
+  );
+
+  // The state a message first appeared in. The stream only loads the latest
+  // checkpoints, so older messages are traced back through the server history.
+  const getFirstSeenState = useCallback(
+    async (message: Message) => {
+      const seen = stream.getMessagesMetadata(message)?.firstSeenState;
+      if (!threadId || !seen || !message.id) return seen;
+      return findFirstSeenState(
+        client,
+        threadId,
+        message.id,
+        seen,
+        stream.history
+      );
+    },
+    [client, threadId, stream]
+  );
+
+  // Resubmits from the checkpoint before the original message, so the old
+  // conversation stays reachable as a sibling branch
+  const editMessage = useCallback(
+    async (message: Message, content: string) => {
+      const parentCheckpoint = (await getFirstSeenState(message))
+        ?.parent_checkpoint;
+      if (!parentCheckpoint) return;
+      const newMessage: Message = {
+        id: uuidv4(),
+        type: "human",
+        content: replaceMessageText(message.content, content),
+      };
+      stream.submit(
+        { messages: [newMessage] },
+        {
+          checkpoint: parentCheckpoint,
+          optimisticValues: (prev) => {
+            const prevMessages = prev.messages ?? [];
+            const index = prevMessages.findIndex((m) => m.id === message.id);
+            return {
+              messages: [
+                ...(index === -1 ? prevMessages : prevMessages.slice(0, index)),
+                newMessage,
+              ],
+            };
+          },
+          config: runConfig,
+          context: runContext,
+          streamSubgraphs: true,
+          ...(debugMode ? { interruptBefore: ["tools"] } : {}),
+        }
+      );
+      onHistoryRevalidate?.();
+    },
+    [
+      stream,
+      runConfig,
+      runContext,
+      debugMode,
+      getFirstSeenState,
+      onHistoryRevalidate,
+    ]
+  );
+
+  // Reruns the model call that produced the message; the previous output
+  // stays reachable as a sibling branch
+  const regenerateMessage = useCallback(
+    async (message: Message) => {
+      const parentCheckpoint = (await getFirstSeenState(message))
+        ?.parent_checkpoint;
+      if (!parentCheckpoint) return;
+      stream.submit(undefined, {
+        checkpoint: parentCheckpoint,
+        optimisticValues: (prev) => {
+          const prevMessages = prev.messages ?? [];
+          const index = prevMessages.findIndex((m) => m.id === message.id);
+          return index === -1
+            ? prev
+            : { messages: prevMessages.slice(0, index) };
+        },
+        config: runConfig,
+        context: runContext,
+        streamSubgraphs: true,
+        ...(debugMode ? { interruptBefore: ["tools"] } : {}),
+      });
+      onHistoryRevalidate?.();
+    },
+    [
+      stream,
+      runConfig,
+      runContext,
+      debugMode,
+      getFirstSeenState,
+      onHistoryRevalidate,
+    ]
   );
 
   const runSingleStep = useCallback(
@@ -187,7 +807,8 @@ export function useChat({
           ...(optimisticMessages
             ? { optimisticValues: { messages: optimisticMessages } }
             : {}),
-          config: activeAssistant?.config,
+          config: runConfig,
+          context: runContext,
           checkpoint: checkpoint,
           streamSubgraphs: true,
           ...(isRerunningSubagent
@@ -197,11 +818,107 @@ export function useChat({
       } else {
         stream.submit(
           { messages },
-          { config: activeAssistant?.config, interruptBefore: ["tools"], streamSubgraphs: true }
+          {
+            config: runConfig,
+            context: runContext,
+            interruptBefore: ["tools"],
+            streamSubgraphs: true,
+          }
         );
       }
     },
-    [stream, activeAssistant?.config]
+    [stream, runConfig, runContext]
+  );
+
+  // Re-runs one subagent of a finished step, optionally with a new task
+  // description. From the checkpoint before the step's tools ran, its AI
+  // message is written again together with the other calls' results, so the
+  // tools node only runs the call still missing a result and the sibling
+  // subagents keep theirs. The run pauses after the tools node for review.
+  const rerunSubagent = useCallback(
+    async (toolCallId: string, description?: string) => {
+      const aiMessage = stream.messages.find(
+        (message) =>
+          message.type === "ai" &&
+          message.tool_calls?.some((call) => call.id === toolCallId)
+      );
+      const state = aiMessage && (await getFirstSeenState(aiMessage));
+      if (!threadId || aiMessage?.type !== "ai" || !state) {
+        throw new Error("The checkpoint before this subagent was not found");
+      }
+      // Writing the call again after its result would leave a stale result
+      // ahead of the rerun
+      const stateMessages: Message[] = state.values?.messages ?? [];
+      if (
+        stateMessages.some(
+          (message) =>
+            message.type === "tool" && message.tool_call_id === toolCallId
+        )
+      ) {
+        throw new Error("The checkpoint found already holds this result");
+      }
+
+      const siblingIds = new Set(
+        aiMessage.tool_calls
+          ?.map((call) => call.id)
+          .filter((id) => id !== toolCallId)
+      );
+      const siblingResults = stream.messages.filter(
+        (message) =>
+          message.type === "tool" && siblingIds.has(message.tool_call_id)
+      );
+      const rewritten: Message = {
+        ...aiMessage,
+        tool_calls: aiMessage.tool_calls?.map((call) =>
+          call.id === toolCallId && description !== undefined
+            ? { ...call, args: { ...call.args, description } }
+            : call
+        ),
+      };
+      const { configurable } = await client.threads.updateState(threadId, {
+        values: { messages: [rewritten, ...siblingResults] },
+        checkpoint: state.checkpoint,
+        // Agents built with create_agent call their model node "model"
+        asNode:
+          (aiMessage.id && messageNodes.current.get(aiMessage.id)) ??
+          getSourceNode(state, stream.history) ??
+          "model",
+      });
+
+      // Drop the previous attempt so the card only shows the new activity
+      const tasks = subagentTasksByThread.current.get(threadId);
+      tasks?.forEach((ids, taskId) => {
+        if (ids.includes(toolCallId)) {
+          tasks.delete(taskId);
+          subagentMessagesByThread.current.get(threadId)?.delete(taskId);
+        }
+      });
+      setSubagentRunsByThread((prev) => {
+        if (!prev[threadId]?.[toolCallId]) return prev;
+        const { [toolCallId]: _previous, ...runs } = prev[threadId];
+        return { ...prev, [threadId]: runs };
+      });
+
+      const index = stream.messages.indexOf(aiMessage);
+      runSingleStep(
+        stream.messages,
+        {
+          ...state.checkpoint,
+          checkpoint_id: configurable?.checkpoint_id ?? null,
+        },
+        true,
+        [...stream.messages.slice(0, index), rewritten, ...siblingResults]
+      );
+      onHistoryRevalidate?.();
+    },
+    [
+      client,
+      threadId,
+      stream,
+      getFirstSeenState,
+      runSingleStep,
+      onHistoryRevalidate,
+    ]
   );
 
   const setFiles = useCallback(
@@ -214,22 +931,93 @@ export function useChat({
     [client, threadId]
   );
 
+  // A recursion limit passed here applies to this run only; callers persist
+  // it through the run settings
   const continueStream = useCallback(
-    (hasTaskToolCall?: boolean) => {
+    (hasTaskToolCall?: boolean, recursionLimit?: number) => {
       stream.submit(undefined, {
-        config: {
-          ...(activeAssistant?.config || {}),
-          recursion_limit: 100,
-        },
+        config: recursionLimit
+          ? { ...runConfig, recursion_limit: recursionLimit }
+          : runConfig,
+        context: runContext,
         streamSubgraphs: true,
-        ...(hasTaskToolCall
+        // Outside debug mode a paused run is continued to the end
+        ...(!debugMode
+          ? {}
+          : hasTaskToolCall
           ? { interruptAfter: ["tools"] }
           : { interruptBefore: ["tools"] }),
       });
       // Update thread list when continuing stream
       onHistoryRevalidate?.();
     },
-    [stream, activeAssistant?.config, onHistoryRevalidate]
+    [stream, runConfig, runContext, debugMode, onHistoryRevalidate]
+  );
+
+  const resumeFromCheckpoint = useCallback(
+    (checkpoint: Checkpoint) => {
+      stream.submit(undefined, {
+        config: runConfig,
+        context: runContext,
+        checkpoint,
+        streamSubgraphs: true,
+        ...(debugMode ? { interruptBefore: ["tools"] } : {}),
+      });
+      onHistoryRevalidate?.();
+    },
+    [stream, runConfig, runContext, debugMode, onHistoryRevalidate]
+  );
+
+  // Copies the given values into a new thread that keeps the source thread's
+  // metadata and run settings, then switches to it
+  const createForkedThread = useCallback(
+    async (
+      values: Partial<StateType>,
+      asNode: string,
+      forkedFrom: Record<string, unknown>
+    ) => {
+      const source = threadId ? await client.threads.get(threadId) : null;
+      const thread = await client.threads.create({
+        metadata: {
+          ...(source?.metadata ?? {}),
+          forked_from: { thread_id: threadId, ...forkedFrom },
+        },
+        supersteps: [{ updates: [{ values, asNode }] }],
+      });
+      if (threadId) {
+        saveRunSettings(thread.thread_id, runSettingsRef.current);
+      }
+      await setThreadId(thread.thread_id);
+      onHistoryRevalidate?.();
+      return thread.thread_id;
+    },
+    [client, threadId, setThreadId, onHistoryRevalidate]
+  );
+
+  const forkFromCheckpoint = useCallback(
+    (state: ThreadState<StateType>) =>
+      // Replaying the values as the node that wrote them keeps `next` intact
+      createForkedThread(
+        state.values,
+        getSourceNode(state, stream.history) ?? "__start__",
+        { checkpoint_id: state.checkpoint.checkpoint_id }
+      ),
+    [createForkedThread, stream.history]
+  );
+
+  // Starts over with the todos and files but none of the conversation, for
+  // when the context window is nearly full
+  const forkWithoutHistory = useCallback(
+    () =>
+      createForkedThread(
+        {
+          todos: stream.values.todos ?? [],
+          files: stream.values.files ?? {},
+        },
+        "__start__",
+        { transcript: true }
+      ),
+    [createForkedThread, stream.values.todos, stream.values.files]
   );
 
   const markCurrentThreadAsResolved = useCallback(() => {
@@ -240,16 +1028,51 @@ export function useChat({
 
   const resumeInterrupt = useCallback(
     (value: any) => {
-      stream.submit(null, { command: { resume: value }, streamSubgraphs: true });
+      stream.submit(null, {
+        command: { resume: value },
+        streamSubgraphs: true,
+      });
       // Update thread list when resuming from interrupt
       onHistoryRevalidate?.();
     },
     [stream, onHistoryRevalidate]
   );
 
-  const stopStream = useCallback(() => {
-    stream.stop();
-  }, [stream]);
+  // Set when the user stops a run, so the error its cancellation may end the
+  // stream with is not reported as a failure
+  const [stoppedWith, setStoppedWith] = useState<RunCancelAction | null>(null);
+
+  useEffect(() => {
+    if (stream.isLoading) setStoppedWith(null);
+  }, [stream.isLoading]);
+
+  // Cancels the run on the server and resolves once it has stopped; the
+  // stream then ends by itself and the thread state is refetched. Without a
+  // running run only the client disconnects, which resolves to
+  // "disconnected" since nothing was stopped or rolled back.
+  const stopStream = useCallback(
+    async (action: RunCancelAction = "interrupt") => {
+      setQueueHeld(true);
+      const runId = await getActiveRunId();
+      if (!threadId || !runId) {
+        stream.stop();
+        return "disconnected" as const;
+      }
+      setStoppedWith(action);
+      try {
+        await client.runs.cancel(threadId, runId, true, action);
+      } catch (error) {
+        // Nothing was stopped, so the stream's own errors are reported again
+        // and the queue goes out once the run finishes
+        setStoppedWith(null);
+        setQueueHeld(false);
+        throw error;
+      }
+      onHistoryRevalidate?.();
+      return "stopped" as const;
+    },
+    [client, threadId, stream, getActiveRunId, onHistoryRevalidate]
+  );
 
   return {
     stream,
@@ -262,14 +1085,41 @@ export function useChat({
     isLoading: stream.isLoading,
     isThreadLoading: stream.isThreadLoading,
     interrupt: stream.interrupt,
+    error: stream.error,
     getMessagesMetadata: stream.getMessagesMetadata,
     subagentMessageIds, // Expose for filtering in ChatInterface
-    subagentMessages, // Expose subagent messages for display in subagent cards
+    getSubagentMessages, // Resolve a task tool call's messages for its subagent card
+    activeNodes,
+    messageNodes,
+    usage,
+    failedToolCallIds,
+    timelineSpans: timelineByThread[currentThreadId] ?? [],
+    subagentRuns: subagentRunsByThread[currentThreadId] ?? NO_SUBAGENT_RUNS,
+    eventLog,
     sendMessage,
+    queuedMessages,
+    enqueueMessage,
+    updateQueuedMessage,
+    cancelQueuedMessage,
+    queueHeld,
+    releaseQueue,
+    redirectRun,
+    editMessage,
+    regenerateMessage,
+    setBranch: stream.setBranch,
     runSingleStep,
+    rerunSubagent,
     continueStream,
     stopStream,
+    stoppedWith,
     markCurrentThreadAsResolved,
     resumeInterrupt,
+    runSettings,
+    setRunSettings,
+    debugMode,
+    setDebugMode,
+    resumeFromCheckpoint,
+    forkFromCheckpoint,
+    forkWithoutHistory,
   };
 }
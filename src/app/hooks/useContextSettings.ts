@@ -0,0 +1,25 @@
+import { useCallback } from "react";
+import useSWR from "swr";
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  getContextSettings,
+  saveContextSettings,
+  type ContextSettings,
+} from "@/lib/contextWindow";
+
+export function useContextSettings() {
+  const { data, mutate } = useSWR("context-settings", getContextSettings, {
+    fallbackData: DEFAULT_CONTEXT_SETTINGS,
+    revalidateOnFocus: false,
+  });
+
+  const setContextSettings = useCallback(
+    (settings: ContextSettings) => {
+      saveContextSettings(settings);
+      mutate(settings, { revalidate: false });
+    },
+    [mutate]
+  );
+
+  return { contextSettings: data, setContextSettings };
+}
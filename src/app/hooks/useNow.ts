@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Re-renders every second while something is running so durations grow
+export function useNow(isRunning: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    setNow(Date.now());
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+  return now;
+}
@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import useSWR from "swr";
+import {
+  DEFAULT_PRICE_TABLE,
+  getPriceTable,
+  savePriceTable,
+  type ModelPrice,
+} from "@/lib/usage";
+
+// Shared through the SWR cache so every consumer updates when the table is edited
+export function usePriceTable() {
+  const { data, mutate } = useSWR("model-price-table", getPriceTable, {
+    fallbackData: DEFAULT_PRICE_TABLE,
+    revalidateOnFocus: false,
+  });
+
+  const setPriceTable = useCallback(
+    (table: ModelPrice[]) => {
+      savePriceTable(table);
+      mutate(table, { revalidate: false });
+    },
+    [mutate]
+  );
+
+  return { priceTable: data, setPriceTable };
+}
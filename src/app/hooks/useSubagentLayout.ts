@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import useSWR from "swr";
+import {
+  DEFAULT_SUBAGENT_LAYOUT,
+  getSubagentLayout,
+  saveSubagentLayout,
+  type SubagentLayout,
+} from "@/lib/subagents";
+
+// Shared through the SWR cache so every message switches layout together
+export function useSubagentLayout() {
+  const { data, mutate } = useSWR("subagent-layout", getSubagentLayout, {
+    fallbackData: DEFAULT_SUBAGENT_LAYOUT,
+    revalidateOnFocus: false,
+  });
+
+  const setSubagentLayout = useCallback(
+    (layout: SubagentLayout) => {
+      saveSubagentLayout(layout);
+      mutate(layout, { revalidate: false });
+    },
+    [mutate]
+  );
+
+  return { subagentLayout: data, setSubagentLayout };
+}
@@ -2,6 +2,7 @@ import useSWRInfinite from "swr/infinite";
 import type { Thread } from "@langchain/langgraph-sdk";
 import { Client } from "@langchain/langgraph-sdk";
 import { getConfig } from "@/lib/config";
+import { summarizeUsage, type UsageByModel } from "@/lib/usage";
 
 export interface ThreadItem {
   id: string;
@@ -10,6 +11,7 @@ export interface ThreadItem {
   title: string;
   description: string;
   assistantId?: string;
+  usage: UsageByModel;
 }
 
 const DEFAULT_PAGE_SIZE = 20;
@@ -17,6 +19,8 @@ const DEFAULT_PAGE_SIZE = 20;
 export function useThreads(props: {
   status?: Thread["status"];
   limit?: number;
+  // The assistant runs are sent to, which may differ from the profile's
+  assistantId?: string;
 }) {
   const pageSize = props.limit || DEFAULT_PAGE_SIZE;
 
@@ -42,7 +46,7 @@ export function useThreads(props: {
         pageIndex,
         pageSize,
         deploymentUrl: config.deploymentUrl,
-        assistantId: config.assistantId,
+        assistantId: props.assistantId || config.assistantId,
         apiKey,
         status: props?.status,
       };
@@ -88,6 +92,7 @@ export function useThreads(props: {
       return threads.map((thread): ThreadItem => {
         let title = "Untitled Thread";
         let description = "";
+        let usage: UsageByModel = {};
 
         try {
           if (thread.values && typeof thread.values === "object") {
@@ -112,6 +117,7 @@ export function useThreads(props: {
                   : firstAiMessage.content[0]?.text || "";
               description = content.slice(0, 100);
             }
+            usage = summarizeUsage(values.messages);
           }
         } catch {
           // Fallback to thread ID
@@ -125,6 +131,7 @@ export function useThreads(props: {
           title,
           description,
           assistantId,
+          usage,
         };
       });
     },
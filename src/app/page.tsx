@@ -2,37 +2,84 @@
 
 import React, { useState, useEffect, useCallback, Suspense } from "react";
 import { useQueryState } from "nuqs";
-import { getConfig, saveConfig, StandaloneConfig } from "@/lib/config";
+import { toast } from "sonner";
+import {
+  getActiveProfile,
+  getProfileStore,
+  saveProfileStore,
+  setActiveProfile,
+  type DeploymentProfile,
+  type ProfileStore,
+} from "@/lib/config";
 import { ConfigDialog } from "@/app/components/ConfigDialog";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Assistant } from "@langchain/langgraph-sdk";
 import { ClientProvider, useClient } from "@/providers/ClientProvider";
-import { Settings, MessagesSquare, SquarePen } from "lucide-react";
+import {
+  Settings,
+  MessagesSquare,
+  SquarePen,
+  Workflow,
+  ChartGantt,
+  History,
+  Radio,
+} from "lucide-react";
 import {
   ResizableHandle,
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { ThreadList } from "@/app/components/ThreadList";
+import { AssistantPicker } from "@/app/components/AssistantPicker";
 import { ChatProvider } from "@/providers/ChatProvider";
 import { ChatInterface } from "@/app/components/ChatInterface";
+import { GraphPanel } from "@/app/components/GraphPanel";
+import { CheckpointTimeline } from "@/app/components/CheckpointTimeline";
+import { RunTimeline } from "@/app/components/RunTimeline";
+import { FailedToolsButton } from "@/app/components/FailedToolsButton";
+import { ThreadUsageButton } from "@/app/components/UsageSummary";
+import {
+  StreamEventInspector,
+  type InspectorDock,
+} from "@/app/components/StreamEventInspector";
 
 interface HomePageInnerProps {
-  config: StandaloneConfig;
+  config: DeploymentProfile;
+  profileStore: ProfileStore;
   configDialogOpen: boolean;
   setConfigDialogOpen: (open: boolean) => void;
-  handleSaveConfig: (config: StandaloneConfig) => void;
+  handleSaveConfig: (store: ProfileStore, activeProfileId: string) => void;
+  handleSwitchProfile: (profileId: string) => void;
 }
 
 function HomePageInner({
   config,
+  profileStore,
   configDialogOpen,
   setConfigDialogOpen,
   handleSaveConfig,
+  handleSwitchProfile,
 }: HomePageInnerProps) {
   const client = useClient();
   const [threadId, setThreadId] = useQueryState("threadId");
   const [sidebar, setSidebar] = useQueryState("sidebar");
+  const [graphPanel, setGraphPanel] = useQueryState("graph");
+  const [historyPanel, setHistoryPanel] = useQueryState("history");
+  const [timelinePanel, setTimelinePanel] = useQueryState("timeline");
+  // Holds the dock side of the stream event inspector when it is open
+  const [eventsPanel, setEventsPanel] = useQueryState("events");
+  const eventsDock: InspectorDock | null =
+    eventsPanel === "bottom" ? "bottom" : eventsPanel ? "right" : null;
+  // The assistant picker writes the chosen assistant here so links reproduce it
+  const [assistantIdParam, setAssistantIdParam] = useQueryState("assistantId");
+  const activeAssistantId = assistantIdParam || config.assistantId;
 
   const [mutateThreads, setMutateThreads] = useState<(() => void) | null>(null);
   const [interruptCount, setInterruptCount] = useState(0);
@@ -41,19 +88,23 @@ function HomePageInner({
   const fetchAssistant = useCallback(async () => {
     const isUUID =
       /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        config.assistantId
+        activeAssistantId
       );
 
     if (isUUID) {
       // We should try to fetch the assistant directly with this UUID
       try {
-        const data = await client.assistants.get(config.assistantId);
+        const data = await client.assistants.get(activeAssistantId);
         setAssistant(data);
       } catch (error) {
         console.error("Failed to fetch assistant:", error);
+        toast.error(`Could not load assistant ${activeAssistantId}`, {
+          description:
+            "Open Settings and use Test connection to see what went wrong.",
+        });
         setAssistant({
-          assistant_id: config.assistantId,
-          graph_id: config.assistantId,
+          assistant_id: activeAssistantId,
+          graph_id: activeAssistantId,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           config: {},
@@ -65,15 +116,12 @@ function HomePageInner({
       }
     } else {
       try {
-        // We should try to list out the assistants for this graph, and then use the default one.
-        // TODO: Paginate this search, but 100 should be enough for graph name
-        const assistants = await client.assistants.search({
-          graphId: config.assistantId,
-          limit: 100,
+        // Look up the default assistant the server creates for this graph
+        const [defaultAssistant] = await client.assistants.search({
+          graphId: activeAssistantId,
+          metadata: { created_by: "system" },
+          limit: 1,
         });
-        const defaultAssistant = assistants.find(
-          (assistant) => assistant.metadata?.["created_by"] === "system"
-        );
         if (defaultAssistant === undefined) {
           throw new Error("No default assistant found");
         }
@@ -83,20 +131,27 @@ function HomePageInner({
           "Failed to find default assistant from graph_id: try setting the assistant_id directly:",
           error
         );
+        toast.error(
+          `Could not find a default assistant for ${activeAssistantId}`,
+          {
+            description:
+              "Open Settings and use Test connection to see what went wrong.",
+          }
+        );
         setAssistant({
-          assistant_id: config.assistantId,
-          graph_id: config.assistantId,
+          assistant_id: activeAssistantId,
+          graph_id: activeAssistantId,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           config: {},
           metadata: {},
           version: 1,
-          name: config.assistantId,
+          name: activeAssistantId,
           context: {},
         });
       }
     }
-  }, [client, config.assistantId]);
+  }, [client, activeAssistantId]);
 
   useEffect(() => {
     fetchAssistant();
@@ -108,109 +163,287 @@ function HomePageInner({
         open={configDialogOpen}
         onOpenChange={setConfigDialogOpen}
         onSave={handleSaveConfig}
-        initialConfig={config}
+        initialStore={profileStore}
+        activeProfileId={config.id}
       />
-      <div className="flex h-screen flex-col">
-        <header className="flex h-16 items-center justify-between border-b border-border px-6">
-          <div className="flex items-center gap-4">
-            <h1 className="text-xl font-semibold">Deep Agent UI</h1>
-            {!sidebar && (
+      <ChatProvider
+        activeAssistant={assistant}
+        onHistoryRevalidate={() => mutateThreads?.()}
+      >
+        <div className="flex h-screen flex-col">
+          <header className="flex h-16 items-center justify-between border-b border-border px-6">
+            <div className="flex items-center gap-4">
+              <h1 className="text-xl font-semibold">Deep Agent UI</h1>
+              {!sidebar && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSidebar("1")}
+                  className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                >
+                  <MessagesSquare className="mr-2 h-4 w-4" />
+                  Threads
+                  {interruptCount > 0 && (
+                    <span className="ml-2 inline-flex min-h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] text-destructive-foreground">
+                      {interruptCount}
+                    </span>
+                  )}
+                </Button>
+              )}
+              {!graphPanel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setGraphPanel("1")}
+                  className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                >
+                  <Workflow className="mr-2 h-4 w-4" />
+                  Graph
+                </Button>
+              )}
+              {!historyPanel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setHistoryPanel("1")}
+                  disabled={!threadId}
+                  className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                >
+                  <History className="mr-2 h-4 w-4" />
+                  Checkpoints
+                </Button>
+              )}
+              {!timelinePanel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setTimelinePanel("1")}
+                  className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                >
+                  <ChartGantt className="mr-2 h-4 w-4" />
+                  Timeline
+                </Button>
+              )}
+              {!eventsDock && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEventsPanel("right")}
+                  className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                >
+                  <Radio className="mr-2 h-4 w-4" />
+                  Events
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {threadId && <FailedToolsButton />}
+              {threadId && <ThreadUsageButton />}
+              {profileStore.profiles.length > 1 && (
+                <Select
+                  value={config.id}
+                  onValueChange={handleSwitchProfile}
+                >
+                  <SelectTrigger
+                    className="h-9 w-fit"
+                    aria-label="Deployment profile"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent align="end">
+                    {profileStore.profiles.map((profile) => (
+                      <SelectItem
+                        key={profile.id}
+                        value={profile.id}
+                      >
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <AssistantPicker
+                assistant={assistant}
+                onSelect={(selected) =>
+                  setAssistantIdParam(selected.assistant_id)
+                }
+              />
               <Button
-                variant="ghost"
+                variant="outline"
                 size="sm"
-                onClick={() => setSidebar("1")}
-                className="rounded-md border border-border bg-card p-3 text-foreground hover:bg-accent"
+                onClick={() => setConfigDialogOpen(true)}
               >
-                <MessagesSquare className="mr-2 h-4 w-4" />
-                Threads
-                {interruptCount > 0 && (
-                  <span className="ml-2 inline-flex min-h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] text-destructive-foreground">
-                    {interruptCount}
-                  </span>
-                )}
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setThreadId(null)}
+                disabled={!threadId}
+                className="border-[#2F6868] bg-[#2F6868] text-white hover:bg-[#2F6868]/80"
+              >
+                <SquarePen className="mr-2 h-4 w-4" />
+                New Thread
               </Button>
-            )}
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="text-sm text-muted-foreground">
-              <span className="font-medium">Assistant:</span>{" "}
-              {config.assistantId}
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setConfigDialogOpen(true)}
-            >
-              <Settings className="mr-2 h-4 w-4" />
-              Settings
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setThreadId(null)}
-              disabled={!threadId}
-              className="border-[#2F6868] bg-[#2F6868] text-white hover:bg-[#2F6868]/80"
-            >
-              <SquarePen className="mr-2 h-4 w-4" />
-              New Thread
-            </Button>
-          </div>
-        </header>
+          </header>
 
-        <div className="flex-1 overflow-hidden">
-          <ResizablePanelGroup
-            direction="horizontal"
-            autoSaveId="standalone-chat"
-          >
-            {sidebar && (
-              <>
-                <ResizablePanel
-                  id="thread-history"
-                  order={1}
-                  defaultSize={25}
-                  minSize={20}
-                  className="relative min-w-[380px]"
-                >
-                  <ThreadList
-                    onThreadSelect={async (id) => {
-                      await setThreadId(id);
-                    }}
-                    onMutateReady={(fn) => setMutateThreads(() => fn)}
-                    onClose={() => setSidebar(null)}
-                    onInterruptCountChange={setInterruptCount}
-                  />
-                </ResizablePanel>
-                <ResizableHandle />
-              </>
-            )}
-
-            <ResizablePanel
-              id="chat"
-              className="relative flex flex-col"
-              order={2}
+          <div className="flex-1 overflow-hidden">
+            <ResizablePanelGroup
+              direction="vertical"
+              autoSaveId="standalone-events"
             >
-              <ChatProvider
-                activeAssistant={assistant}
-                onHistoryRevalidate={() => mutateThreads?.()}
+              <ResizablePanel
+                id="main"
+                order={1}
               >
-                <ChatInterface assistant={assistant} />
-              </ChatProvider>
-            </ResizablePanel>
-          </ResizablePanelGroup>
+                <ResizablePanelGroup
+                  direction="horizontal"
+                  autoSaveId="standalone-chat"
+                >
+                  {sidebar && (
+                    <>
+                      <ResizablePanel
+                        id="thread-history"
+                        order={1}
+                        defaultSize={25}
+                        minSize={20}
+                        className="relative min-w-[380px]"
+                      >
+                        <ThreadList
+                          onThreadSelect={async (id) => {
+                            await setThreadId(id);
+                          }}
+                          onMutateReady={(fn) => setMutateThreads(() => fn)}
+                          onClose={() => setSidebar(null)}
+                          onInterruptCountChange={setInterruptCount}
+                          assistantId={activeAssistantId}
+                        />
+                      </ResizablePanel>
+                      <ResizableHandle />
+                    </>
+                  )}
+
+                  <ResizablePanel
+                    id="chat"
+                    className="relative flex flex-col"
+                    order={2}
+                  >
+                    <ChatInterface assistant={assistant} />
+                  </ResizablePanel>
+
+                  {graphPanel && (
+                    <>
+                      <ResizableHandle />
+                      <ResizablePanel
+                        id="graph"
+                        order={3}
+                        defaultSize={30}
+                        minSize={20}
+                        className="relative min-w-[320px]"
+                      >
+                        <GraphPanel
+                          assistant={assistant}
+                          onClose={() => setGraphPanel(null)}
+                        />
+                      </ResizablePanel>
+                    </>
+                  )}
+
+                  {historyPanel && threadId && (
+                    <>
+                      <ResizableHandle />
+                      <ResizablePanel
+                        id="checkpoints"
+                        order={4}
+                        defaultSize={30}
+                        minSize={20}
+                        className="relative min-w-[320px]"
+                      >
+                        <CheckpointTimeline
+                          onClose={() => setHistoryPanel(null)}
+                        />
+                      </ResizablePanel>
+                    </>
+                  )}
+
+                  {timelinePanel && (
+                    <>
+                      <ResizableHandle />
+                      <ResizablePanel
+                        id="timeline"
+                        order={5}
+                        defaultSize={30}
+                        minSize={20}
+                        className="relative min-w-[320px]"
+                      >
+                        <RunTimeline onClose={() => setTimelinePanel(null)} />
+                      </ResizablePanel>
+                    </>
+                  )}
+
+                  {eventsDock === "right" && (
+                    <>
+                      <ResizableHandle />
+                      <ResizablePanel
+                        id="events"
+                        order={6}
+                        defaultSize={30}
+                        minSize={20}
+                        className="relative min-w-[320px]"
+                      >
+                        <StreamEventInspector
+                          dock="right"
+                          onDockChange={setEventsPanel}
+                          onClose={() => setEventsPanel(null)}
+                        />
+                      </ResizablePanel>
+                    </>
+                  )}
+                </ResizablePanelGroup>
+              </ResizablePanel>
+
+              {eventsDock === "bottom" && (
+                <>
+                  <ResizableHandle />
+                  <ResizablePanel
+                    id="events"
+                    order={2}
+                    defaultSize={30}
+                    minSize={15}
+                    className="relative min-h-[200px]"
+                  >
+                    <StreamEventInspector
+                      dock="bottom"
+                      onDockChange={setEventsPanel}
+                      onClose={() => setEventsPanel(null)}
+                    />
+                  </ResizablePanel>
+                </>
+              )}
+            </ResizablePanelGroup>
+          </div>
         </div>
-      </div>
+      </ChatProvider>
     </>
   );
 }
 
 function HomePageContent() {
-  const [config, setConfig] = useState<StandaloneConfig | null>(null);
+  const [profileStore, setProfileStore] = useState<ProfileStore>({
+    profiles: [],
+    defaultProfileId: null,
+  });
+  const [config, setConfig] = useState<DeploymentProfile | null>(null);
   const [configDialogOpen, setConfigDialogOpen] = useState(false);
   const [assistantId, setAssistantId] = useQueryState("assistantId");
+  const [, setThreadId] = useQueryState("threadId");
 
-  // On mount, check for saved config, otherwise show config dialog
+  // On mount, check for saved profiles, otherwise show config dialog
   useEffect(() => {
-    const savedConfig = getConfig();
+    setProfileStore(getProfileStore());
+    const savedConfig = getActiveProfile();
     if (savedConfig) {
       setConfig(savedConfig);
       if (!assistantId) {
@@ -229,10 +462,40 @@ function HomePageContent() {
     }
   }, [config, assistantId, setAssistantId]);
 
-  const handleSaveConfig = useCallback((newConfig: StandaloneConfig) => {
-    saveConfig(newConfig);
-    setConfig(newConfig);
-  }, []);
+  const activateProfile = useCallback(
+    (profile: DeploymentProfile) => {
+      // Threads and assistants belong to a deployment, so a different
+      // deployment starts from a clean slate
+      if (
+        profile.id !== config?.id ||
+        profile.deploymentUrl !== config?.deploymentUrl
+      ) {
+        setThreadId(null);
+      }
+      setAssistantId(profile.assistantId);
+      setActiveProfile(profile.id);
+      setConfig(profile);
+    },
+    [config, setThreadId, setAssistantId]
+  );
+
+  const handleSaveConfig = useCallback(
+    (newStore: ProfileStore, activeProfileId: string) => {
+      saveProfileStore(newStore);
+      setProfileStore(newStore);
+      const profile = newStore.profiles.find((p) => p.id === activeProfileId);
+      if (profile) activateProfile(profile);
+    },
+    [activateProfile]
+  );
+
+  const handleSwitchProfile = useCallback(
+    (profileId: string) => {
+      const profile = profileStore.profiles.find((p) => p.id === profileId);
+      if (profile) activateProfile(profile);
+    },
+    [profileStore, activateProfile]
+  );
 
   const langsmithApiKey =
     config?.langsmithApiKey || process.env.NEXT_PUBLIC_LANGSMITH_API_KEY || "";
@@ -244,6 +507,7 @@ function HomePageContent() {
           open={configDialogOpen}
           onOpenChange={setConfigDialogOpen}
           onSave={handleSaveConfig}
+          initialStore={profileStore}
         />
         <div className="flex h-screen items-center justify-center">
           <div className="text-center">
@@ -265,14 +529,17 @@ function HomePageContent() {
 
   return (
     <ClientProvider
+      key={config.id}
       deploymentUrl={config.deploymentUrl}
       apiKey={langsmithApiKey}
     >
       <HomePageInner
         config={config}
+        profileStore={profileStore}
         configDialogOpen={configDialogOpen}
         setConfigDialogOpen={setConfigDialogOpen}
         handleSaveConfig={handleSaveConfig}
+        handleSwitchProfile={handleSwitchProfile}
       />
     </ClientProvider>
   );
@@ -6,13 +6,38 @@ export interface ToolCall {
   status: "pending" | "completed" | "error" | "interrupted";
 }
 
+// What the server does with a new run while another is active on the thread
+export type MultitaskStrategy = "enqueue" | "interrupt" | "rollback" | "reject";
+
+// Interrupt keeps the checkpoints a cancelled run wrote; rollback deletes them
+export type RunCancelAction = "interrupt" | "rollback";
+
 export interface SubAgent {
   id: string;
   name: string;
   subAgentName: string;
   input: Record<string, unknown>;
   output?: Record<string, unknown>;
-  status: "pending" | "active" | "completed" | "error";
+  status: "pending" | "queued" | "active" | "completed" | "error" | "cancelled";
+  startedAt?: number;
+  endedAt?: number;
+  error?: string;
+}
+
+// Subset of JSON Schema used to render forms from graph schemas
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
 }
 
 export interface FileItem {
@@ -1,4 +1,6 @@
-import { Message } from "@langchain/langgraph-sdk";
+import { Message, ThreadState } from "@langchain/langgraph-sdk";
+import type { SubAgent, ToolCall } from "@/app/types/types";
+import type { SubagentRun, SubagentRuns } from "@/lib/subagents";
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -61,6 +63,32 @@ export function extractSubAgentContent(data: unknown): string {
   return JSON.stringify(data, null, 2);
 }
 
+// Graph node IDs from `getGraph({ xray: true })` prefix subgraph nodes with
+// their parent node ("tools:model"), while stream namespaces carry the task
+// ID ("tools:<task_id>"), so only the node part of each namespace is kept
+export function getGraphNodeId(
+  namespace: string[] | undefined,
+  nodeName: string
+): string {
+  const parents = (namespace ?? []).map((ns) => ns.split(":")[0]);
+  return [...parents, nodeName].join(":");
+}
+
+// A checkpoint is written after a node runs, so the node that produced it is
+// the one its parent checkpoint was about to run. For messages, pass the
+// state the message was first seen in.
+export function getSourceNode(
+  state: ThreadState<any> | undefined,
+  history: ThreadState<any>[]
+): string | undefined {
+  const parentId = state?.parent_checkpoint?.checkpoint_id;
+  if (!parentId) return undefined;
+  const parent = history.find(
+    (state) => state.checkpoint.checkpoint_id === parentId
+  );
+  return parent?.next[0];
+}
+
 export function isPreparingToCallTaskTool(messages: Message[]): boolean {
   const lastMessage = messages[messages.length - 1];
   return (
@@ -155,3 +183,358 @@ export function formatConversationForLLM(messages: Message[]): string {
   const formattedMessages = messages.map(formatMessageForLLM);
   return formattedMessages.join("\n\n---\n\n");
 }
+
+// Tool results are cut to this length when condensing a conversation
+const TOOL_RESULT_PREVIEW_CHARS = 500;
+
+function truncateToolResult(message: Message): Message {
+  if (message.type !== "tool" || typeof message.content !== "string") {
+    return message;
+  }
+  if (message.content.length <= TOOL_RESULT_PREVIEW_CHARS) return message;
+  return {
+    ...message,
+    content: `${message.content.slice(
+      0,
+      TOOL_RESULT_PREVIEW_CHARS
+    )}… [truncated]`,
+  };
+}
+
+// Condenses the conversation into a prompt that asks the agent to summarize
+// it and carry on. When it is still too long, the oldest messages after the
+// first request are dropped.
+export function buildSummaryPrompt(
+  messages: Message[],
+  limitTokens: number
+): string {
+  // At ~4 chars/token, one char per token of the window keeps the transcript
+  // to roughly a quarter of it
+  const maxChars = limitTokens;
+  const condensed = messages.map(truncateToolResult);
+  let transcript = formatConversationForLLM(condensed);
+  let dropped = 0;
+  while (transcript.length > maxChars && condensed.length > 2) {
+    condensed.splice(1, 1);
+    dropped += 1;
+    transcript = formatConversationForLLM(condensed);
+  }
+
+  return [
+    "This conversation continues a previous thread that was close to the model's context limit. A condensed transcript of it follows" +
+      (dropped > 0 ? ` (${dropped} older messages omitted).` : "."),
+    `<transcript>\n${transcript}\n</transcript>`,
+    "Start by writing a concise summary of the goal, the decisions made and the work still to do, then continue with the task.",
+  ].join("\n\n");
+}
+
+export type RenderableBlock =
+  | { kind: "text"; text: string }
+  | { kind: "image"; src: string; alt?: string }
+  | { kind: "reasoning"; text: string; redacted?: boolean }
+  | { kind: "unknown"; type: string; data: unknown };
+
+// Blocks that are already rendered elsewhere (tool calls) or carry no content
+const HIDDEN_BLOCK_TYPES = new Set([
+  "tool_use",
+  "tool_call",
+  "tool_call_chunk",
+  "function_call",
+  "input_json_delta",
+  "server_tool_use",
+]);
+
+function getImageSource(block: Record<string, any>): string | undefined {
+  // OpenAI chat completions
+  if (block.type === "image_url") {
+    return typeof block.image_url === "string"
+      ? block.image_url
+      : block.image_url?.url;
+  }
+  // Anthropic
+  if (block.source?.type === "base64") {
+    return `data:${block.source.media_type};base64,${block.source.data}`;
+  }
+  if (block.source?.type === "url") return block.source.url;
+  // LangChain standard blocks (v0 `data`/`mime_type`, v1 `base64`/`mimeType`)
+  const base64 =
+    block.base64 ?? (block.source_type !== "url" ? block.data : undefined);
+  const mimeType = block.mimeType ?? block.mime_type ?? "image/png";
+  if (base64) return `data:${mimeType};base64,${base64}`;
+  return block.url;
+}
+
+function getReasoningText(block: Record<string, any>): string {
+  if (typeof block.thinking === "string") return block.thinking;
+  if (typeof block.reasoning === "string") return block.reasoning;
+  // OpenAI Responses API reasoning summaries
+  if (Array.isArray(block.summary)) {
+    return block.summary
+      .map((part: { text?: string }) => part.text ?? "")
+      .filter(Boolean)
+      .join("\n\n");
+  }
+  return "";
+}
+
+// Normalizes AI message content into renderable blocks in their original
+// order, merging adjacent text and reasoning chunks left over from streaming
+export function getMessageContentBlocks(message: Message): RenderableBlock[] {
+  const blocks: RenderableBlock[] = [];
+  const push = (block: RenderableBlock) => {
+    const last = blocks.at(-1);
+    if (last?.kind === "text" && block.kind === "text") {
+      last.text += block.text;
+    } else if (
+      last?.kind === "reasoning" &&
+      block.kind === "reasoning" &&
+      !last.redacted &&
+      !block.redacted
+    ) {
+      last.text += block.text;
+    } else {
+      blocks.push(block);
+    }
+  };
+
+  // langchain-openai keeps reasoning summaries outside the content
+  const kwargsReasoning = (message as any).additional_kwargs?.reasoning;
+  if (kwargsReasoning && typeof kwargsReasoning === "object") {
+    const text = getReasoningText(kwargsReasoning);
+    if (text) push({ kind: "reasoning", text });
+  }
+
+  if (typeof message.content === "string") {
+    if (message.content) push({ kind: "text", text: message.content });
+    return blocks;
+  }
+  if (!Array.isArray(message.content)) return blocks;
+
+  (message.content as unknown[]).forEach((c) => {
+    if (typeof c === "string") {
+      if (c) push({ kind: "text", text: c });
+      return;
+    }
+    if (typeof c !== "object" || c === null) return;
+    const block = c as Record<string, any>;
+    const type = String(block.type ?? "unknown");
+    if (HIDDEN_BLOCK_TYPES.has(type)) return;
+
+    switch (type) {
+      case "text":
+        if (block.text) push({ kind: "text", text: block.text });
+        return;
+      case "image":
+      case "image_url": {
+        const src = getImageSource(block);
+        if (src) {
+          push({ kind: "image", src, alt: block.metadata?.name });
+        } else {
+          push({ kind: "unknown", type, data: block });
+        }
+        return;
+      }
+      case "thinking":
+      case "reasoning": {
+        const text = getReasoningText(block);
+        if (text) push({ kind: "reasoning", text });
+        return;
+      }
+      case "redacted_thinking":
+        push({ kind: "reasoning", text: "", redacted: true });
+        return;
+      default:
+        push({ kind: "unknown", type, data: block });
+    }
+  });
+  return blocks;
+}
+
+export interface StreamErrorInfo {
+  type: string;
+  message: string;
+  detail: string;
+  isRecursionLimit: boolean;
+}
+
+// Built-in errors raised in the browser, such as a failed fetch
+const CLIENT_ERROR_NAMES = new Set([
+  "Error",
+  "TypeError",
+  "RangeError",
+  "SyntaxError",
+  "ReferenceError",
+  "AbortError",
+]);
+
+// Server errors arrive as a `StreamError` named after the Python exception;
+// network and client errors are plain `Error`s. A `StreamError` assigns its
+// name on the instance, while built-in errors inherit theirs, which tells a
+// server `TypeError` from a browser one. Its stack is only that of the
+// browser-side wrapper, so its detail is built from the server's payload,
+// whose message holds any traceback.
+export function getStreamErrorInfo(error: unknown): StreamErrorInfo {
+  const type =
+    error instanceof Error
+      ? error.name
+      : (error as any)?.name ?? (error as any)?.error ?? "Error";
+  const message =
+    error instanceof Error
+      ? error.message
+      : (error as any)?.message ?? String(error);
+  const isClientError =
+    error instanceof Error &&
+    CLIENT_ERROR_NAMES.has(error.name) &&
+    !Object.prototype.hasOwnProperty.call(error, "name");
+  const detail =
+    isClientError && error.stack ? error.stack : `${type}: ${message}`;
+  return {
+    type,
+    message,
+    detail,
+    isRecursionLimit:
+      type === "GraphRecursionError" || /recursion limit/i.test(message),
+  };
+}
+
+const TRACEBACK_MARKER = "Traceback (most recent call last):";
+
+// LangChain tool nodes report failures as `status: "error"`, but some tools
+// return the exception as their content instead. Only the forms LangChain
+// emits count, since normal output such as a log file may start with "Error".
+export function isToolMessageError(message: Message): boolean {
+  if (message.type !== "tool") return false;
+  if (message.status === "error") return true;
+  const content = extractStringFromMessageContent(message).trimStart();
+  return (
+    content.startsWith(TRACEBACK_MARKER) ||
+    /^Error( invoking tool\b|:)/.test(content)
+  );
+}
+
+export interface ToolErrorDetails {
+  summary: string;
+  traceback?: string;
+}
+
+// The summary is the exception line, with the retry hint ToolNode appends
+// ("Please fix your mistakes.") removed
+export function parseToolError(result: string): ToolErrorDetails {
+  const tracebackStart = result.indexOf(TRACEBACK_MARKER);
+  const traceback =
+    tracebackStart === -1 ? undefined : result.slice(tracebackStart).trim();
+  const source = traceback
+    ? traceback.split("\n").findLast((line) => line.trim()) ?? ""
+    : result.split("\n").find((line) => line.trim()) ?? "";
+  const summary = source
+    .trim()
+    .replace(/^Error:\s*/, "")
+    .replace(/\s*Please fix your mistakes\.?$/, "");
+  return { summary: summary || "Tool call failed", traceback };
+}
+
+// The tool result is final; until it arrives the tracked run tells whether
+// the subagent is queued, running or was cancelled
+function getSubAgentStatus(
+  toolCall: ToolCall,
+  run: SubagentRun | undefined
+): SubAgent["status"] {
+  if (toolCall.status === "error") return "error";
+  if (toolCall.status === "completed") {
+    return run?.status === "error" ? "error" : "completed";
+  }
+  return run?.status ?? "pending";
+}
+
+// Task tool calls that start a subagent, shaped for the subagent card
+export function getSubAgents(
+  toolCalls: ToolCall[],
+  runs: SubagentRuns = {}
+): SubAgent[] {
+  return toolCalls
+    .filter(
+      (toolCall) =>
+        toolCall.name === "task" &&
+        typeof toolCall.args["subagent_type"] === "string" &&
+        toolCall.args["subagent_type"] !== ""
+    )
+    .map((toolCall) => {
+      const run = runs[toolCall.id];
+      const status = getSubAgentStatus(toolCall, run);
+      return {
+        id: toolCall.id,
+        name: toolCall.name,
+        subAgentName: toolCall.args["subagent_type"] as string,
+        input: toolCall.args,
+        output: toolCall.result ? { result: toolCall.result } : undefined,
+        status,
+        startedAt: run?.startedAt,
+        endedAt: run?.endedAt,
+        error:
+          status !== "error"
+            ? undefined
+            : run?.error ??
+              (toolCall.result
+                ? parseToolError(toolCall.result).summary
+                : undefined),
+      };
+    });
+}
+
+function getTextContent(content: unknown, stringify: boolean): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    // Content can be array of text blocks
+    return content
+      .map((item: any) =>
+        typeof item === "string"
+          ? item
+          : item.text || (stringify ? JSON.stringify(item) : "")
+      )
+      .filter(Boolean)
+      .join("\n");
+  }
+  return content && stringify ? JSON.stringify(content, null, 2) : "";
+}
+
+export interface SubAgentActivity {
+  texts: string[];
+  toolCalls: ToolCall[];
+}
+
+// Text and tool calls of a subagent, with each call matched to its result
+export function getSubAgentActivity(messages: any[]): SubAgentActivity {
+  const toolResults = new Map<string, any>();
+  messages.forEach((msg) => {
+    if (msg.type === "tool" && msg.tool_call_id) {
+      toolResults.set(msg.tool_call_id, msg);
+    }
+  });
+
+  const toolCalls: ToolCall[] = messages
+    .filter((msg) => msg.type === "ai" && Array.isArray(msg.tool_calls))
+    .flatMap((msg) => msg.tool_calls)
+    .map((tc: any) => {
+      const toolResult = toolResults.get(tc.id);
+      return {
+        id: tc.id,
+        name: tc.name || "unknown",
+        args: tc.args || {},
+        status: toolResult
+          ? isToolMessageError(toolResult)
+            ? "error"
+            : "completed"
+          : "pending",
+        result: toolResult
+          ? getTextContent(toolResult.content, true) || undefined
+          : undefined,
+      };
+    });
+
+  const texts = messages
+    .filter((msg) => msg.type === "ai" && msg.content)
+    .map((msg) => getTextContent(msg.content, false).trim())
+    .filter((text) => text.length > 0);
+
+  return { texts, toolCalls };
+}
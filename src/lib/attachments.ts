@@ -0,0 +1,214 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { v4 as uuidv4 } from "uuid";
+
+export type AttachmentKind = "image" | "pdf" | "text";
+
+// Text files are either inlined into the message or written to `files` state
+export type TextAttachmentMode = "inline" | "file";
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  // Base64 for images and PDFs, raw text for text files
+  data: string;
+  mode: TextAttachmentMode;
+}
+
+// What the human bubble shows for each non-text content block
+export interface DisplayAttachment {
+  kind: AttachmentKind;
+  name: string;
+  src?: string;
+}
+
+type ContentBlock = Record<string, any>;
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = [
+  "md",
+  "txt",
+  "csv",
+  "tsv",
+  "json",
+  "jsonl",
+  "yaml",
+  "yml",
+  "xml",
+  "html",
+  "css",
+  "js",
+  "jsx",
+  "ts",
+  "tsx",
+  "py",
+  "sh",
+  "sql",
+  "toml",
+  "ini",
+  "log",
+];
+
+const INLINE_FILE_PATTERN = /^<file name="([^"]*)">\n[\s\S]*\n<\/file>$/;
+
+function getKind(file: File): AttachmentKind | null {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type.startsWith("text/") || file.type === "application/json") {
+    return "text";
+  }
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return TEXT_EXTENSIONS.includes(extension) ? "text" : null;
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result);
+      resolve(result.slice(result.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  const kind = getKind(file);
+  if (!kind) {
+    throw new Error(`${file.name}: unsupported file type`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name}: larger than 10 MB`);
+  }
+  return {
+    id: uuidv4(),
+    name: file.name || `pasted-${kind}`,
+    mimeType: file.type || "text/plain",
+    size: file.size,
+    kind,
+    data: kind === "text" ? await file.text() : await readAsBase64(file),
+    mode: "inline",
+  };
+}
+
+// Uses LangChain's standard multimodal block shapes
+function toContentBlock(attachment: Attachment): ContentBlock {
+  switch (attachment.kind) {
+    case "image":
+      return {
+        type: "image",
+        source_type: "base64",
+        mime_type: attachment.mimeType,
+        data: attachment.data,
+        metadata: { name: attachment.name },
+      };
+    case "pdf":
+      return {
+        type: "file",
+        source_type: "base64",
+        mime_type: attachment.mimeType,
+        data: attachment.data,
+        metadata: { filename: attachment.name },
+      };
+    case "text":
+      return {
+        type: "text",
+        text: `<file name="${attachment.name}">\n${attachment.data}\n</file>`,
+      };
+  }
+}
+
+export function buildMessageContent(
+  text: string,
+  attachments: Attachment[]
+): Message["content"] {
+  const blocks = attachments
+    .filter((a) => a.kind !== "text" || a.mode === "inline")
+    .map(toContentBlock);
+  if (blocks.length === 0) return text;
+  return [
+    ...(text ? [{ type: "text", text }] : []),
+    ...blocks,
+  ] as Message["content"];
+}
+
+// Text attachments routed to `files` state, keyed by file name
+export function getAttachmentFiles(
+  attachments: Attachment[]
+): Record<string, string> {
+  return Object.fromEntries(
+    attachments
+      .filter((a) => a.kind === "text" && a.mode === "file")
+      .map((a) => [a.name, a.data])
+  );
+}
+
+function toDisplayAttachment(block: ContentBlock): DisplayAttachment | null {
+  if (block.type === "image") {
+    const src =
+      block.source_type === "base64" || (block.data && !block.url)
+        ? `data:${block.mime_type};base64,${block.data}`
+        : block.url;
+    return { kind: "image", name: block.metadata?.name ?? "image", src };
+  }
+  if (block.type === "image_url") {
+    const url =
+      typeof block.image_url === "string"
+        ? block.image_url
+        : block.image_url?.url;
+    return { kind: "image", name: "image", src: url };
+  }
+  if (block.type === "file") {
+    return {
+      kind: block.mime_type === "application/pdf" ? "pdf" : "text",
+      name: block.metadata?.filename ?? block.metadata?.name ?? "file",
+    };
+  }
+  if (block.type === "text") {
+    const match = INLINE_FILE_PATTERN.exec(block.text ?? "");
+    if (match) return { kind: "text", name: match[1] };
+  }
+  return null;
+}
+
+// Splits a human message into the typed text and the attachments it carries
+export function splitHumanContent(message: Message): {
+  text: string;
+  attachments: DisplayAttachment[];
+} {
+  if (!Array.isArray(message.content)) {
+    return { text: String(message.content ?? ""), attachments: [] };
+  }
+  const text: string[] = [];
+  const attachments: DisplayAttachment[] = [];
+  (message.content as (ContentBlock | string)[]).forEach((block) => {
+    if (typeof block === "string") {
+      text.push(block);
+      return;
+    }
+    const attachment = toDisplayAttachment(block);
+    if (attachment) {
+      attachments.push(attachment);
+    } else if (block.type === "text") {
+      text.push(block.text ?? "");
+    }
+  });
+  return { text: text.join(""), attachments };
+}
+
+// Replaces the typed text of a message while keeping its attachments
+export function replaceMessageText(
+  content: Message["content"],
+  text: string
+): Message["content"] {
+  if (!Array.isArray(content)) return text;
+  const attachmentBlocks = (content as (ContentBlock | string)[]).filter(
+    (block) => typeof block !== "string" && toDisplayAttachment(block)
+  );
+  if (attachmentBlocks.length === 0) return text;
+  return [{ type: "text", text }, ...attachmentBlocks] as Message["content"];
+}
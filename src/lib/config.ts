@@ -1,25 +1,97 @@
+import { v4 as uuidv4 } from "uuid";
+
 export interface StandaloneConfig {
   deploymentUrl: string;
   assistantId: string;
   langsmithApiKey?: string;
 }
 
+export interface DeploymentProfile extends StandaloneConfig {
+  id: string;
+  name: string;
+}
+
+export interface ProfileStore {
+  profiles: DeploymentProfile[];
+  defaultProfileId: string | null;
+}
+
+// Single-config key used before profiles existed, migrated on first read
 const CONFIG_KEY = "deep-agent-config";
+const PROFILES_KEY = "deep-agent-profiles";
+// The active profile is per tab, so new tabs start on the default profile
+const ACTIVE_PROFILE_KEY = "deep-agent-active-profile";
 
-export function getConfig(): StandaloneConfig | null {
-  if (typeof window === "undefined") return null;
+const EMPTY_STORE: ProfileStore = {
+  profiles: [],
+  defaultProfileId: null,
+};
+
+export function createProfile(
+  name: string,
+  config?: Partial<StandaloneConfig>
+): DeploymentProfile {
+  return {
+    id: uuidv4(),
+    name,
+    deploymentUrl: config?.deploymentUrl ?? "",
+    assistantId: config?.assistantId ?? "",
+    langsmithApiKey: config?.langsmithApiKey,
+  };
+}
+
+export function getProfileStore(): ProfileStore {
+  if (typeof window === "undefined") return EMPTY_STORE;
+
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (stored) {
+    try {
+      return { ...EMPTY_STORE, ...JSON.parse(stored) };
+    } catch {
+      return EMPTY_STORE;
+    }
+  }
 
-  const stored = localStorage.getItem(CONFIG_KEY);
-  if (!stored) return null;
+  const legacy = localStorage.getItem(CONFIG_KEY);
+  if (!legacy) return EMPTY_STORE;
 
   try {
-    return JSON.parse(stored);
+    const profile = createProfile("Default", JSON.parse(legacy));
+    const store: ProfileStore = {
+      profiles: [profile],
+      defaultProfileId: profile.id,
+    };
+    saveProfileStore(store);
+    localStorage.removeItem(CONFIG_KEY);
+    return store;
   } catch {
-    return null;
+    return EMPTY_STORE;
   }
 }
 
-export function saveConfig(config: StandaloneConfig): void {
+export function saveProfileStore(store: ProfileStore): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+}
+
+export function getDefaultProfile(): DeploymentProfile | null {
+  const { profiles, defaultProfileId } = getProfileStore();
+  return profiles.find((p) => p.id === defaultProfileId) ?? profiles[0] ?? null;
+}
+
+export function getActiveProfile(): DeploymentProfile | null {
+  if (typeof window === "undefined") return null;
+
+  const activeProfileId = sessionStorage.getItem(ACTIVE_PROFILE_KEY);
+  const { profiles } = getProfileStore();
+  return profiles.find((p) => p.id === activeProfileId) ?? getDefaultProfile();
+}
+
+export function setActiveProfile(profileId: string): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+}
+
+export function getConfig(): StandaloneConfig | null {
+  return getActiveProfile();
 }
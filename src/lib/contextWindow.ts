@@ -0,0 +1,98 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import {
+  findByModelPrefix,
+  getMessageModel,
+  getMessageUsage,
+} from "@/lib/usage";
+
+export interface ModelContextLimit {
+  // Matched as a prefix of the model name; the longest match wins
+  model: string;
+  tokens: number;
+}
+
+export interface ContextSettings {
+  // Fractions of the context window at which the meter changes color
+  warningThreshold: number;
+  criticalThreshold: number;
+  limits: ModelContextLimit[];
+}
+
+export type ContextLevel = "ok" | "warning" | "critical";
+
+export interface ContextUsage {
+  model?: string;
+  usedTokens: number;
+  limitTokens: number;
+  // False when the model has no entry and the fallback limit is assumed
+  isKnownModel: boolean;
+  ratio: number;
+  level: ContextLevel;
+}
+
+const CONTEXT_SETTINGS_KEY = "deep-agent-context-settings";
+
+export const FALLBACK_CONTEXT_LIMIT = 128_000;
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  warningThreshold: 0.7,
+  criticalThreshold: 0.9,
+  limits: [
+    { model: "claude", tokens: 200_000 },
+    { model: "gpt-5", tokens: 400_000 },
+    { model: "gpt-4.1", tokens: 1_047_576 },
+    { model: "gpt-4o", tokens: 128_000 },
+    { model: "o3", tokens: 200_000 },
+    { model: "o4-mini", tokens: 200_000 },
+    { model: "gemini-2.5", tokens: 1_048_576 },
+  ],
+};
+
+export function getContextSettings(): ContextSettings {
+  if (typeof window === "undefined") return DEFAULT_CONTEXT_SETTINGS;
+
+  const stored = localStorage.getItem(CONTEXT_SETTINGS_KEY);
+  if (!stored) return DEFAULT_CONTEXT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_CONTEXT_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_CONTEXT_SETTINGS;
+  }
+}
+
+export function saveContextSettings(settings: ContextSettings): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(CONTEXT_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// The latest model call saw its input and produced its output, so together
+// they are what the next call starts from
+export function getContextUsage(
+  messages: Message[],
+  settings: ContextSettings
+): ContextUsage | null {
+  const latest = messages.findLast((message) => getMessageUsage(message));
+  if (!latest) return null;
+
+  const usage = getMessageUsage(latest)!;
+  const model = getMessageModel(latest);
+  const limit = model ? findByModelPrefix(model, settings.limits) : undefined;
+  const limitTokens = limit?.tokens ?? FALLBACK_CONTEXT_LIMIT;
+  const usedTokens = usage.inputTokens + usage.outputTokens;
+  const ratio = usedTokens / limitTokens;
+
+  return {
+    model,
+    usedTokens,
+    limitTokens,
+    isKnownModel: !!limit,
+    ratio,
+    level:
+      ratio >= settings.criticalThreshold
+        ? "critical"
+        : ratio >= settings.warningThreshold
+        ? "warning"
+        : "ok",
+  };
+}
@@ -0,0 +1,196 @@
+import { Client } from "@langchain/langgraph-sdk";
+import type { StandaloneConfig } from "@/lib/config";
+
+export type ConnectionCheckId =
+  | "reachable"
+  | "auth"
+  | "assistant"
+  | "defaultAssistant";
+
+export type ConnectionCheckStatus =
+  | "pending"
+  | "running"
+  | "passed"
+  | "failed"
+  | "skipped";
+
+export interface ConnectionCheck {
+  id: ConnectionCheckId;
+  label: string;
+  status: ConnectionCheckStatus;
+  detail?: string;
+}
+
+const CHECK_LABELS: Record<ConnectionCheckId, string> = {
+  reachable: "Server is reachable",
+  auth: "API key is accepted",
+  assistant: "Graph or assistant ID resolves",
+  defaultAssistant: "Default assistant exists",
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error === "object" && error !== null && "status" in error) {
+    const status = Number((error as { status: unknown }).status);
+    return Number.isNaN(status) ? undefined : status;
+  }
+  return undefined;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createInitialChecks(): ConnectionCheck[] {
+  return (Object.keys(CHECK_LABELS) as ConnectionCheckId[]).map((id) => ({
+    id,
+    label: CHECK_LABELS[id],
+    status: "pending",
+  }));
+}
+
+/**
+ * Runs the connection checks in order against the given config, reporting
+ * progress after every step. Once a check fails, the remaining ones are
+ * skipped since they depend on it.
+ */
+export async function testConnection(
+  config: StandaloneConfig,
+  onProgress?: (checks: ConnectionCheck[]) => void
+): Promise<ConnectionCheck[]> {
+  let checks = createInitialChecks();
+  const update = (id: ConnectionCheckId, patch: Partial<ConnectionCheck>) => {
+    checks = checks.map((c) => (c.id === id ? { ...c, ...patch } : c));
+    onProgress?.(checks);
+  };
+  const skipRemaining = (detail: string) => {
+    checks = checks.map((c) =>
+      c.status === "pending" ? { ...c, status: "skipped", detail } : c
+    );
+    onProgress?.(checks);
+    return checks;
+  };
+
+  const deploymentUrl = config.deploymentUrl.replace(/\/+$/, "");
+  const apiKey =
+    config.langsmithApiKey || process.env.NEXT_PUBLIC_LANGSMITH_API_KEY || "";
+  const client = new Client({
+    apiUrl: deploymentUrl,
+    defaultHeaders: apiKey ? { "X-Api-Key": apiKey } : {},
+    // Fail fast, the user is waiting on the result
+    callerOptions: { maxRetries: 0 },
+  });
+
+  update("reachable", { status: "running" });
+  try {
+    // Any HTTP response proves the server is there, even an error status
+    await fetch(`${deploymentUrl}/info`);
+    update("reachable", { status: "passed" });
+  } catch {
+    const isMixedContent =
+      typeof window !== "undefined" &&
+      window.location.protocol === "https:" &&
+      deploymentUrl.startsWith("http:");
+    update("reachable", {
+      status: "failed",
+      detail: isMixedContent
+        ? "The browser blocked an http:// request from this https:// page (mixed content)."
+        : "No response from the server. Check the URL, that the server is running, and that it allows requests from this origin (CORS).",
+    });
+    return skipRemaining("Server is unreachable");
+  }
+
+  update("auth", { status: "running" });
+  try {
+    await client.assistants.search({ limit: 1 });
+    update("auth", {
+      status: "passed",
+      detail: apiKey ? undefined : "No API key required by this server",
+    });
+  } catch (error) {
+    const status = getErrorStatus(error);
+    update("auth", {
+      status: "failed",
+      detail:
+        status === 401 || status === 403
+          ? apiKey
+            ? `The server rejected the API key (${status}).`
+            : `The server requires a LangSmith API key (${status}).`
+          : getErrorMessage(error),
+    });
+    return skipRemaining("Could not authenticate");
+  }
+
+  const assistantId = config.assistantId.trim();
+  const isUUID = UUID_PATTERN.test(assistantId);
+
+  update("assistant", { status: "running" });
+  try {
+    if (isUUID) {
+      const assistant = await client.assistants.get(assistantId);
+      update("assistant", {
+        status: "passed",
+        detail: `Assistant "${assistant.name}" on graph "${assistant.graph_id}"`,
+      });
+    } else {
+      const assistants = await client.assistants.search({
+        graphId: assistantId,
+        limit: 1,
+      });
+      if (assistants.length === 0) {
+        update("assistant", {
+          status: "failed",
+          detail: `Unknown graph "${assistantId}". Check the graph name in langgraph.json.`,
+        });
+        return skipRemaining("Graph not found");
+      }
+      update("assistant", {
+        status: "passed",
+        detail: `Graph "${assistantId}"`,
+      });
+    }
+  } catch (error) {
+    update("assistant", {
+      status: "failed",
+      detail:
+        getErrorStatus(error) === 404
+          ? `No assistant with ID "${assistantId}".`
+          : getErrorMessage(error),
+    });
+    return skipRemaining("Assistant not found");
+  }
+
+  if (isUUID) {
+    update("defaultAssistant", {
+      status: "skipped",
+      detail: "Not needed when an assistant ID is used directly",
+    });
+    return checks;
+  }
+
+  update("defaultAssistant", { status: "running" });
+  try {
+    const defaults = await client.assistants.search({
+      graphId: assistantId,
+      metadata: { created_by: "system" },
+      limit: 1,
+    });
+    update(
+      "defaultAssistant",
+      defaults.length > 0
+        ? { status: "passed" }
+        : {
+            status: "failed",
+            detail: `No assistant with "created_by: system" metadata for graph "${assistantId}". Use an assistant ID instead.`,
+          }
+    );
+  } catch (error) {
+    update("defaultAssistant", {
+      status: "failed",
+      detail: getErrorMessage(error),
+    });
+  }
+  return checks;
+}
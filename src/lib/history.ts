@@ -0,0 +1,62 @@
+import type { Client, ThreadState } from "@langchain/langgraph-sdk";
+
+// useStream only loads the latest checkpoints, so views that need older ones
+// page through the thread history themselves
+export const HISTORY_PAGE_SIZE = 100;
+
+// Checkpoints of every branch, newest first, older than `beforeId` when given
+export function getHistoryPage<ValuesType>(
+  client: Client,
+  threadId: string,
+  beforeId?: string | null
+): Promise<ThreadState<ValuesType>[]> {
+  return client.threads.getHistory<ValuesType>(threadId, {
+    limit: HISTORY_PAGE_SIZE,
+    ...(beforeId
+      ? { before: { configurable: { checkpoint_id: beforeId } } }
+      : {}),
+  });
+}
+
+function hasMessage(state: ThreadState<any>, messageId: string): boolean {
+  const messages = state.values?.messages;
+  return (
+    Array.isArray(messages) &&
+    messages.some((message: any) => message?.id === messageId)
+  );
+}
+
+// The state a message first appeared in on its branch. `seen` is where the
+// stream first saw it, which for a message older than the loaded checkpoints
+// is only the oldest loaded one, so parents are followed, paging through older
+// history as needed, until one no longer holds the message. Undefined when the
+// chain cannot be followed to that point.
+export async function findFirstSeenState<ValuesType>(
+  client: Client,
+  threadId: string,
+  messageId: string,
+  seen: ThreadState<ValuesType>,
+  loaded: ThreadState<ValuesType>[]
+): Promise<ThreadState<ValuesType> | undefined> {
+  const states = new Map(
+    loaded.map((state) => [state.checkpoint.checkpoint_id, state])
+  );
+  let state = seen;
+  let beforeId = seen.checkpoint.checkpoint_id;
+  for (;;) {
+    const parentId = state.parent_checkpoint?.checkpoint_id;
+    if (!parentId) return state;
+    const parent = states.get(parentId);
+    if (parent) {
+      if (!hasMessage(parent, messageId)) return state;
+      state = parent;
+      continue;
+    }
+    // Parents are older than their children, so paging continues from the
+    // oldest checkpoint read so far
+    const page = await getHistoryPage<ValuesType>(client, threadId, beforeId);
+    if (page.length === 0) return undefined;
+    page.forEach((older) => states.set(older.checkpoint.checkpoint_id, older));
+    beforeId = page[page.length - 1].checkpoint.checkpoint_id;
+  }
+}
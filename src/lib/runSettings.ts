@@ -0,0 +1,48 @@
+export interface RunSettings {
+  recursionLimit?: number;
+  configurable: Record<string, unknown>;
+  context: Record<string, unknown>;
+}
+
+const RUN_SETTINGS_KEY = "deep-agent-run-settings";
+
+export const DEFAULT_RECURSION_LIMIT = 100;
+
+export const EMPTY_RUN_SETTINGS: RunSettings = {
+  configurable: {},
+  context: {},
+};
+
+function readAll(): Record<string, RunSettings> {
+  if (typeof window === "undefined") return {};
+
+  const stored = localStorage.getItem(RUN_SETTINGS_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+export function getRunSettings(threadId: string | null): RunSettings {
+  if (!threadId) return EMPTY_RUN_SETTINGS;
+  return { ...EMPTY_RUN_SETTINGS, ...readAll()[threadId] };
+}
+
+export function saveRunSettings(threadId: string, settings: RunSettings): void {
+  if (typeof window === "undefined") return;
+
+  const all = readAll();
+  const isEmpty =
+    settings.recursionLimit === undefined &&
+    Object.keys(settings.configurable).length === 0 &&
+    Object.keys(settings.context).length === 0;
+  if (isEmpty) {
+    delete all[threadId];
+  } else {
+    all[threadId] = settings;
+  }
+  localStorage.setItem(RUN_SETTINGS_KEY, JSON.stringify(all));
+}
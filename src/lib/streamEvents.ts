@@ -0,0 +1,130 @@
+import type { Client } from "@langchain/langgraph-sdk";
+
+export interface StreamEventRecord {
+  id: number;
+  time: number;
+  // Stream mode of the event, e.g. "updates" or "messages"
+  type: string;
+  // Empty for the root graph, otherwise the subgraph path
+  namespace: string[];
+  data: unknown;
+}
+
+export const ROOT_NAMESPACE = "(root)";
+
+// Oldest events are dropped past this, as token streams add up quickly
+const MAX_EVENTS = 5000;
+
+export function getNamespaceLabel(namespace: string[]): string {
+  return namespace.length > 0 ? namespace.join(" / ") : ROOT_NAMESPACE;
+}
+
+// Event names carry the namespace after a pipe: "updates|tools:<task_id>"
+export function parseStreamEvent(event: string): {
+  type: string;
+  namespace: string[];
+} {
+  const [type, ...namespace] = event.split("|");
+  return { type, namespace };
+}
+
+// External store for recorded events, so that streaming only re-renders the
+// inspector and not the chat. Listeners are notified at most every 100ms.
+export class StreamEventLog {
+  private events: StreamEventRecord[] = [];
+  private snapshot: StreamEventRecord[] = [];
+  private listeners = new Set<() => void>();
+  private nextId = 0;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  // Off until the inspector is opened
+  recording = false;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  record(event: string, data: unknown) {
+    if (!this.recording) return;
+    const { type, namespace } = parseStreamEvent(event);
+    this.events.push({
+      id: this.nextId++,
+      time: Date.now(),
+      type,
+      namespace,
+      data,
+    });
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS);
+    }
+    this.notifyTimer ??= setTimeout(() => this.notify(), 100);
+  }
+
+  setRecording(recording: boolean) {
+    this.recording = recording;
+    this.notify();
+  }
+
+  clear() {
+    this.events = [];
+    this.notify();
+  }
+
+  private notify() {
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+    this.notifyTimer = null;
+    this.snapshot = [...this.events];
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+async function* tapStream<T extends { event: string; data: unknown }>(
+  stream: AsyncGenerator<T>,
+  log: StreamEventLog
+): AsyncGenerator<T> {
+  for await (const chunk of stream) {
+    log.record(chunk.event, chunk.data);
+    yield chunk;
+  }
+}
+
+// Wraps the client so every event of streamed and joined runs is recorded.
+// Everything else is inherited from the original client.
+export function withStreamEventLog(
+  client: Client,
+  log: StreamEventLog
+): Client {
+  const runs = client.runs;
+  const tappedRuns = Object.create(runs, {
+    stream: {
+      value: ((...args: Parameters<typeof runs.stream>) =>
+        tapStream(runs.stream(...args), log)) as typeof runs.stream,
+    },
+    joinStream: {
+      value: ((...args: Parameters<typeof runs.joinStream>) =>
+        tapStream(runs.joinStream(...args), log)) as typeof runs.joinStream,
+    },
+  });
+  return Object.create(client, { runs: { value: tappedRuns } });
+}
+
+export function exportStreamEvents(
+  events: StreamEventRecord[],
+  threadId: string | null
+): void {
+  const blob = new Blob([JSON.stringify(events, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `stream-events-${threadId ?? "new-thread"}-${Date.now()}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
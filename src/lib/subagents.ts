@@ -0,0 +1,275 @@
+import type { Client, ThreadState } from "@langchain/langgraph-sdk";
+import { getTaskToolCalls } from "@/lib/timeline";
+
+// Subgraph namespaces name the Pregel task that started them, e.g.
+// "tools:{task_id}". That is the ID of the tool node run, not of the task
+// tool call, so the two are linked through the tool node's debug events.
+export function getNamespaceTaskId(segment: string): string {
+  const separator = segment.indexOf(":");
+  return separator === -1 ? segment : segment.slice(separator + 1);
+}
+
+// Messages are grouped by the innermost subgraph that produced them, so the
+// activity of a nested subagent is not mixed into its parent's
+export function getSubagentKey(namespace: string[]): string {
+  return getNamespaceTaskId(namespace[namespace.length - 1]);
+}
+
+// Records which task tool calls a tool node run executed. Returns false when
+// the run did not call the task tool.
+export function recordSubagentTask(
+  subagentTasks: Map<string, string[]>,
+  taskId: string,
+  input: unknown
+): boolean {
+  const toolCallIds = getTaskToolCalls(input)
+    .filter((call) => call.name === "task" && call.id)
+    .map((call) => call.id!);
+  if (toolCallIds.length === 0) return false;
+  subagentTasks.set(taskId, toolCallIds);
+  return true;
+}
+
+function getFirstHumanText(messages: any[]): string | undefined {
+  const human = messages.find((message) => message?.type === "human");
+  if (typeof human?.content === "string") return human.content.trim();
+  if (Array.isArray(human?.content)) {
+    return human.content
+      .map((block: any) => (typeof block === "string" ? block : block?.text))
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+  }
+  return undefined;
+}
+
+// Messages of the subagent started by a task tool call. A tool node run that
+// executed only that call identifies its subgraph exactly. Otherwise, such as
+// when the tool node event was missed or one run executed several calls, the
+// subgraph whose first human message is the call's description is used.
+export function findSubagentMessages(
+  toolCallId: string,
+  description: string | undefined,
+  subagentMessages: Map<string, any[]>,
+  subagentTasks: Map<string, string[]>
+): any[] {
+  const exact = Array.from(subagentTasks.entries())
+    .filter(([, ids]) => ids.length === 1 && ids[0] === toolCallId)
+    .map(([taskId]) => taskId);
+  if (exact.length > 0) {
+    return exact.flatMap((taskId) => subagentMessages.get(taskId) ?? []);
+  }
+
+  const target = description?.trim();
+  if (!target) return [];
+  const match = Array.from(subagentMessages.entries()).find(
+    ([key, messages]) =>
+      (subagentTasks.get(key)?.length ?? 0) !== 1 &&
+      getFirstHumanText(messages) === target
+  );
+  return match?.[1] ?? [];
+}
+
+// Checkpoints read per namespace, and how deep nested subagents are followed
+const RESTORE_HISTORY_LIMIT = 200;
+const RESTORE_MAX_DEPTH = 3;
+
+// Tool node runs of a checkpoint. With one run per tool call (sent in
+// parallel), runs follow the order of the calls; a single run gets them all.
+function getToolTasks(state: ThreadState<any>) {
+  const toolTasks = state.tasks.filter((task) => task.name === "tools");
+  const calls = getTaskToolCalls(state.values);
+  return toolTasks.map((task, index) => ({
+    task,
+    calls: toolTasks.length === calls.length ? [calls[index]] : calls,
+  }));
+}
+
+// Rebuilds subagent activity from the checkpoints each subagent wrote under
+// its own namespace, for runs that were not streamed in this session.
+// Subgraphs already captured from live events are left untouched. Returns
+// the restored runs, timed by their first and last checkpoints.
+export async function restoreSubagentActivity(
+  client: Client,
+  threadId: string,
+  subagentMessages: Map<string, any[]>,
+  subagentTasks: Map<string, string[]>,
+  namespace: string[] = []
+): Promise<SubagentRuns> {
+  const history = await client.threads.getHistory<{ messages?: any[] }>(
+    threadId,
+    {
+      limit: RESTORE_HISTORY_LIMIT,
+      ...(namespace.length > 0
+        ? { checkpoint: { checkpoint_ns: namespace.join("|") } }
+        : {}),
+    }
+  );
+
+  const runs: SubagentRuns = {};
+  if (namespace.length > 0) {
+    // History is newest first and the latest state holds every message
+    const [latest] = history;
+    const key = getSubagentKey(namespace);
+    const messages = latest?.values?.messages;
+    if (Array.isArray(messages)) subagentMessages.set(key, messages);
+
+    const start = Date.parse(history.at(-1)?.created_at ?? "");
+    const end = Date.parse(latest?.created_at ?? "");
+    if (!Number.isNaN(start) && !Number.isNaN(end)) {
+      subagentTasks.get(key)?.forEach((toolCallId) => {
+        runs[toolCallId] = {
+          // Stopped with steps left, since nothing is running now
+          status: latest.next.length > 0 ? "cancelled" : "completed",
+          queuedAt: start,
+          startedAt: start,
+          endedAt: end,
+        };
+      });
+    }
+  }
+  if (namespace.length >= RESTORE_MAX_DEPTH) return runs;
+
+  const restores = history
+    .flatMap(getToolTasks)
+    .filter(
+      ({ task, calls }) =>
+        !subagentMessages.has(task.id) &&
+        recordSubagentTask(subagentTasks, task.id, calls)
+    )
+    .map(({ task }) =>
+      restoreSubagentActivity(
+        client,
+        threadId,
+        subagentMessages,
+        subagentTasks,
+        task.checkpoint?.checkpoint_ns
+          ? task.checkpoint.checkpoint_ns.split("|")
+          : [...namespace, `tools:${task.id}`]
+      )
+    );
+  return Object.assign(runs, ...(await Promise.all(restores)));
+}
+
+// How sibling subagents of one message are laid out in the chat
+export type SubagentLayout = "stacked" | "lanes";
+
+export const DEFAULT_SUBAGENT_LAYOUT: SubagentLayout = "stacked";
+
+const SUBAGENT_LAYOUT_KEY = "deep-agent-subagent-layout";
+
+export function getSubagentLayout(): SubagentLayout {
+  if (typeof window === "undefined") return DEFAULT_SUBAGENT_LAYOUT;
+  return localStorage.getItem(SUBAGENT_LAYOUT_KEY) === "lanes"
+    ? "lanes"
+    : DEFAULT_SUBAGENT_LAYOUT;
+}
+
+export function saveSubagentLayout(layout: SubagentLayout): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(SUBAGENT_LAYOUT_KEY, layout);
+}
+
+export type SubagentRunStatus =
+  | "queued"
+  | "active"
+  | "completed"
+  | "error"
+  | "cancelled";
+
+// Lifecycle of the subagent started by a task tool call
+export interface SubagentRun {
+  status: SubagentRunStatus;
+  // When its tool node run started
+  queuedAt: number;
+  // When the first event arrived from its namespace
+  startedAt?: number;
+  endedAt?: number;
+  error?: string;
+}
+
+export type SubagentRuns = Record<string, SubagentRun>;
+
+function isOpen(run: SubagentRun | undefined): boolean {
+  return run?.status === "queued" || run?.status === "active";
+}
+
+// Applies `update` to the runs of the given task calls, keeping the same
+// object when nothing changed so state updates can bail out
+function updateRuns(
+  runs: SubagentRuns,
+  toolCallIds: string[],
+  update: (run: SubagentRun | undefined) => SubagentRun | undefined
+): SubagentRuns {
+  let next = runs;
+  toolCallIds.forEach((id) => {
+    const run = update(runs[id]);
+    if (run && run !== runs[id]) {
+      if (next === runs) next = { ...runs };
+      next[id] = run;
+    }
+  });
+  return next;
+}
+
+export function queueSubagents(
+  runs: SubagentRuns,
+  toolCallIds: string[],
+  time: number
+): SubagentRuns {
+  return updateRuns(runs, toolCallIds, (run) =>
+    isOpen(run) ? run : { status: "queued", queuedAt: time }
+  );
+}
+
+export function startSubagents(
+  runs: SubagentRuns,
+  toolCallIds: string[],
+  time: number
+): SubagentRuns {
+  return updateRuns(runs, toolCallIds, (run) =>
+    run && run.status !== "queued"
+      ? run
+      : {
+          status: "active",
+          queuedAt: run?.queuedAt ?? time,
+          startedAt: time,
+        }
+  );
+}
+
+export function finishSubagents(
+  runs: SubagentRuns,
+  toolCallIds: string[],
+  time: number,
+  error?: string
+): SubagentRuns {
+  return updateRuns(runs, toolCallIds, (run) =>
+    run && isOpen(run)
+      ? {
+          ...run,
+          status: error ? "error" : "completed",
+          startedAt: run.startedAt ?? run.queuedAt,
+          endedAt: time,
+          error,
+        }
+      : run
+  );
+}
+
+// For runs that stopped without reporting back, e.g. when cancelled
+export function cancelOpenSubagents(
+  runs: SubagentRuns,
+  time: number
+): SubagentRuns {
+  return updateRuns(runs, Object.keys(runs), (run) =>
+    run && isOpen(run)
+      ? {
+          ...run,
+          status: "cancelled",
+          startedAt: run.startedAt ?? run.queuedAt,
+          endedAt: time,
+        }
+      : run
+  );
+}
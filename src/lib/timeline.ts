@@ -0,0 +1,174 @@
+import type { ThreadState } from "@langchain/langgraph-sdk";
+
+export interface TimelineToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TimelineSpan {
+  // Task ID from the debug event, or the checkpoint ID when rebuilt from history
+  id: string;
+  // "" for the main agent, otherwise the innermost subgraph namespace, e.g.
+  // "tools:{id}"
+  lane: string;
+  node: string;
+  start: number;
+  // Undefined while the task is still running
+  end?: number;
+  toolCalls: TimelineToolCall[];
+  error?: string;
+}
+
+export interface TimelineLaneSpan extends TimelineSpan {
+  // Overlapping spans, such as parallel tool calls, stack on separate rows
+  row: number;
+}
+
+export interface TimelineLane {
+  id: string;
+  label: string;
+  // The task tool call that started a subagent lane
+  parentToolCallId?: string;
+  spans: TimelineLaneSpan[];
+  rows: number;
+}
+
+export const MAIN_LANE = "";
+
+// Nested subagents get their own lane, named after the innermost subgraph,
+// rather than sharing their top-level ancestor's
+export function getNamespaceLane(namespace: string[] | undefined): string {
+  return namespace && namespace.length > 0
+    ? namespace[namespace.length - 1]
+    : MAIN_LANE;
+}
+
+export function getToolCallElementId(toolCallId: string): string {
+  return `tool-call-${toolCallId}`;
+}
+
+function toToolCall(value: any): TimelineToolCall | null {
+  if (!value || typeof value.name !== "string") return null;
+  return { id: value.id, name: value.name, args: value.args ?? {} };
+}
+
+// Tool nodes receive either a single call sent with its state, a list of
+// calls, or the whole state whose last AI message holds the calls
+export function getTaskToolCalls(input: any): TimelineToolCall[] {
+  if (!input || typeof input !== "object") return [];
+  if (input.tool_call) {
+    const call = toToolCall(input.tool_call);
+    return call ? [call] : [];
+  }
+  if (Array.isArray(input)) {
+    return input.map(toToolCall).filter((call) => call !== null);
+  }
+  const messages: any[] = Array.isArray(input.messages) ? input.messages : [];
+  const lastAi = messages.findLast((message) => message?.type === "ai");
+  return (lastAi?.tool_calls ?? [])
+    .map(toToolCall)
+    .filter((call: TimelineToolCall | null) => call !== null);
+}
+
+export function parseEventTime(timestamp: unknown): number {
+  const parsed =
+    typeof timestamp === "string" ? Date.parse(timestamp) : Number.NaN;
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
+
+// Without live events, each checkpoint after the first marks the end of the
+// step that wrote it, and the previous checkpoint marks its start
+export function getCheckpointSpans(
+  history: ThreadState<any>[],
+  getNode: (state: ThreadState<any>) => string | undefined
+): TimelineSpan[] {
+  return history.flatMap((state, index) => {
+    const previous = history[index - 1];
+    if (!previous?.created_at || !state.created_at) return [];
+    const node = getNode(state);
+    if (!node) return [];
+    return [
+      {
+        id: state.checkpoint.checkpoint_id ?? String(index),
+        lane: MAIN_LANE,
+        node,
+        start: Date.parse(previous.created_at),
+        end: Date.parse(state.created_at),
+        toolCalls: node === "tools" ? getTaskToolCalls(previous.values) : [],
+      },
+    ];
+  });
+}
+
+function assignRows(
+  spans: TimelineSpan[],
+  now: number
+): { spans: TimelineLaneSpan[]; rows: number } {
+  const rowEnds: number[] = [];
+  const placed = [...spans]
+    .sort((a, b) => a.start - b.start)
+    .map((span) => {
+      let row = rowEnds.findIndex((end) => end <= span.start);
+      if (row === -1) row = rowEnds.length;
+      rowEnds[row] = span.end ?? now;
+      return { ...span, row };
+    });
+  return { spans: placed, rows: Math.max(1, rowEnds.length) };
+}
+
+// Subagent lanes are named after the task tool call that started them, whose
+// tools task ID is the one in the subgraph namespace
+export function groupSpansIntoLanes(
+  spans: TimelineSpan[],
+  now: number
+): TimelineLane[] {
+  const lanes = new Map<string, TimelineSpan[]>([[MAIN_LANE, []]]);
+  spans.forEach((span) => {
+    if (!lanes.has(span.lane)) lanes.set(span.lane, []);
+    lanes.get(span.lane)!.push(span);
+  });
+  return Array.from(lanes.entries()).map(([id, laneSpans]) => {
+    if (id === MAIN_LANE) {
+      return { id, label: "Main agent", ...assignRows(laneSpans, now) };
+    }
+    const taskId = id.replace(/^tools:/, "");
+    const parentCall = spans
+      .find((span) => span.id === taskId)
+      ?.toolCalls.find((call) => call.name === "task");
+    const subagentType = parentCall?.args?.subagent_type;
+    return {
+      id,
+      label: typeof subagentType === "string" ? subagentType : id,
+      parentToolCallId: parentCall?.id,
+      ...assignRows(laneSpans, now),
+    };
+  });
+}
+
+// Splits spans wherever nothing ran for longer than `idleMs`, so the idle time
+// between runs does not squeeze every bar into a sliver
+export function splitIntoRuns(
+  spans: TimelineSpan[],
+  now: number,
+  idleMs = 30_000
+): TimelineSpan[][] {
+  const runs: TimelineSpan[][] = [];
+  let runEnd = -Infinity;
+  [...spans]
+    .sort((a, b) => a.start - b.start)
+    .forEach((span) => {
+      if (runs.length === 0 || span.start - runEnd > idleMs) runs.push([]);
+      runs[runs.length - 1].push(span);
+      runEnd = Math.max(runEnd, span.end ?? now);
+    });
+  return runs;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+}
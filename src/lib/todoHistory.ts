@@ -0,0 +1,148 @@
+import type { ThreadState } from "@langchain/langgraph-sdk";
+
+export interface PlanTodo {
+  id?: string;
+  content: string;
+  status: string;
+}
+
+export type PlanChangeKind =
+  | "added"
+  | "removed"
+  | "reworded"
+  | "status"
+  | "unchanged";
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  todo: PlanTodo;
+  // The matching item of the previous revision, for reworded and status
+  // changes. A reworded item may have changed status as well.
+  previous?: PlanTodo;
+}
+
+export interface PlanRevision {
+  checkpointId: string;
+  createdAt?: string;
+  todos: PlanTodo[];
+  // Against the previous revision; every item is "added" in the first one
+  changes: PlanChange[];
+}
+
+// Items sharing at least this share of their words count as reworded rather
+// than one removed and one added
+const REWORD_SIMILARITY = 0.5;
+
+function getWords(content: string): Set<string> {
+  return new Set(content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function getSimilarity(a: string, b: string): number {
+  const wordsA = getWords(a);
+  const wordsB = getWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size;
+}
+
+// Pairs items by ID, then by identical content, then by similar content.
+// Removed items follow the current ones, in their previous order.
+export function diffTodos(
+  previous: PlanTodo[],
+  todos: PlanTodo[]
+): PlanChange[] {
+  const matches = new Map<number, number>();
+  const unmatched = new Set(previous.keys());
+  const pair = (
+    isMatch: (before: PlanTodo, todo: PlanTodo) => boolean,
+    pick: (candidates: number[], todo: PlanTodo) => number | undefined = (
+      candidates
+    ) => candidates[0]
+  ) => {
+    todos.forEach((todo, index) => {
+      if (matches.has(index)) return;
+      const candidates = Array.from(unmatched).filter((i) =>
+        isMatch(previous[i], todo)
+      );
+      const match = pick(candidates, todo);
+      if (match === undefined) return;
+      matches.set(index, match);
+      unmatched.delete(match);
+    });
+  };
+
+  pair((before, todo) => !!todo.id && before.id === todo.id);
+  pair((before, todo) => before.content.trim() === todo.content.trim());
+  pair(
+    (before, todo) =>
+      getSimilarity(before.content, todo.content) >= REWORD_SIMILARITY,
+    (candidates, todo) =>
+      candidates.sort(
+        (a, b) =>
+          getSimilarity(previous[b].content, todo.content) -
+          getSimilarity(previous[a].content, todo.content)
+      )[0]
+  );
+
+  const changes = todos.map((todo, index): PlanChange => {
+    const match = matches.get(index);
+    if (match === undefined) return { kind: "added", todo };
+    const before = previous[match];
+    const kind =
+      before.content.trim() !== todo.content.trim()
+        ? "reworded"
+        : before.status !== todo.status
+        ? "status"
+        : "unchanged";
+    return { kind, todo, previous: kind === "unchanged" ? undefined : before };
+  });
+  return [
+    ...changes,
+    ...Array.from(unmatched)
+      .sort((a, b) => a - b)
+      .map((i): PlanChange => ({ kind: "removed", todo: previous[i] })),
+  ];
+}
+
+function isSamePlan(a: PlanTodo[], b: PlanTodo[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (todo, index) =>
+        todo.content === b[index].content && todo.status === b[index].status
+    )
+  );
+}
+
+// Plan revisions of the current branch, oldest first. History is newest
+// first and may hold other branches, so it is walked from the latest
+// checkpoint through its parents. A checkpoint starts a revision when its
+// todos differ from its parent's.
+export function getPlanRevisions(
+  history: ThreadState<{ todos?: PlanTodo[] }>[]
+): PlanRevision[] {
+  const byId = new Map(
+    history.map((state) => [state.checkpoint.checkpoint_id, state])
+  );
+  const branch: ThreadState<{ todos?: PlanTodo[] }>[] = [];
+  let state: ThreadState<{ todos?: PlanTodo[] }> | undefined = history[0];
+  while (state && !branch.includes(state)) {
+    branch.push(state);
+    state = byId.get(state.parent_checkpoint?.checkpoint_id ?? null);
+  }
+
+  const revisions: PlanRevision[] = [];
+  let previous: PlanTodo[] = [];
+  branch.reverse().forEach((state) => {
+    const todos = Array.isArray(state.values?.todos) ? state.values.todos : [];
+    if (isSamePlan(previous, todos)) return;
+    revisions.push({
+      checkpointId: state.checkpoint.checkpoint_id ?? "",
+      createdAt: state.created_at ?? undefined,
+      todos,
+      changes: diffTodos(previous, todos),
+    });
+    previous = todos;
+  });
+  return revisions;
+}
@@ -0,0 +1,211 @@
+import type { Message } from "@langchain/langgraph-sdk";
+
+export interface TokenUsage {
+  // Includes cached tokens, as reported in `usage_metadata.input_tokens`
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+  // Matched as a prefix of the model name; the longest match wins
+  model: string;
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export type UsageByModel = Record<string, TokenUsage>;
+
+export interface CostEstimate {
+  cost: number;
+  // Models that have usage but no price, so `cost` is a lower bound
+  unpriced: string[];
+}
+
+const PRICE_TABLE_KEY = "deep-agent-model-prices";
+
+export const UNKNOWN_MODEL = "unknown";
+
+export const EMPTY_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+};
+
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+  {
+    model: "claude-opus-4-5",
+    input: 5,
+    output: 25,
+    cacheRead: 0.5,
+    cacheWrite: 6.25,
+  },
+  {
+    model: "claude-opus-4",
+    input: 15,
+    output: 75,
+    cacheRead: 1.5,
+    cacheWrite: 18.75,
+  },
+  {
+    model: "claude-sonnet-4",
+    input: 3,
+    output: 15,
+    cacheRead: 0.3,
+    cacheWrite: 3.75,
+  },
+  {
+    model: "claude-haiku-4",
+    input: 1,
+    output: 5,
+    cacheRead: 0.1,
+    cacheWrite: 1.25,
+  },
+  { model: "gpt-5-mini", input: 0.25, output: 2, cacheRead: 0.025 },
+  { model: "gpt-5", input: 1.25, output: 10, cacheRead: 0.125 },
+  { model: "gpt-4.1-mini", input: 0.4, output: 1.6, cacheRead: 0.1 },
+  { model: "gpt-4.1", input: 2, output: 8, cacheRead: 0.5 },
+  { model: "gpt-4o-mini", input: 0.15, output: 0.6, cacheRead: 0.075 },
+  { model: "gpt-4o", input: 2.5, output: 10, cacheRead: 1.25 },
+];
+
+export function getPriceTable(): ModelPrice[] {
+  if (typeof window === "undefined") return DEFAULT_PRICE_TABLE;
+
+  const stored = localStorage.getItem(PRICE_TABLE_KEY);
+  if (!stored) return DEFAULT_PRICE_TABLE;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+export function savePriceTable(table: ModelPrice[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+}
+
+export function getMessageModel(message: Message): string | undefined {
+  const metadata = (message as any).response_metadata;
+  const model = metadata?.model_name ?? metadata?.model;
+  return typeof model === "string" && model ? model : undefined;
+}
+
+export function getMessageUsage(message: Message): TokenUsage | null {
+  if (message.type !== "ai") return null;
+  const usage = (message as any).usage_metadata;
+  if (!usage) return null;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadTokens: usage.input_token_details?.cache_read ?? 0,
+    cacheCreationTokens: usage.input_token_details?.cache_creation ?? 0,
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+  };
+}
+
+// Messages are deduplicated by ID since subagent messages can also show up
+// in the parent's state
+export function summarizeUsage(messages: Message[]): UsageByModel {
+  const seen = new Set<string>();
+  const byModel: UsageByModel = {};
+  messages.forEach((message) => {
+    if (message.id) {
+      if (seen.has(message.id)) return;
+      seen.add(message.id);
+    }
+    const usage = getMessageUsage(message);
+    if (!usage) return;
+    const model = getMessageModel(message) ?? UNKNOWN_MODEL;
+    byModel[model] = addUsage(byModel[model] ?? EMPTY_USAGE, usage);
+  });
+  return byModel;
+}
+
+export function getTotalUsage(byModel: UsageByModel): TokenUsage {
+  return Object.values(byModel).reduce(addUsage, EMPTY_USAGE);
+}
+
+// Finds the entry whose `model` is the longest prefix of the model name
+export function findByModelPrefix<T extends { model: string }>(
+  model: string,
+  table: T[]
+): T | undefined {
+  // Strip provider prefixes such as "anthropic:" or "openai/"
+  const name = model.replace(/^[\w-]+[:/]/, "").toLowerCase();
+  return table
+    .filter(
+      (entry) => entry.model && name.startsWith(entry.model.toLowerCase())
+    )
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+export function findModelPrice(
+  model: string,
+  table: ModelPrice[]
+): ModelPrice | undefined {
+  return findByModelPrefix(model, table);
+}
+
+export function estimateModelCost(
+  usage: TokenUsage,
+  price: ModelPrice
+): number {
+  const uncachedInput = Math.max(
+    0,
+    usage.inputTokens - usage.cacheReadTokens - usage.cacheCreationTokens
+  );
+  return (
+    (uncachedInput * price.input +
+      usage.cacheReadTokens * (price.cacheRead ?? price.input) +
+      usage.cacheCreationTokens * (price.cacheWrite ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function estimateCost(
+  byModel: UsageByModel,
+  table: ModelPrice[]
+): CostEstimate {
+  return Object.entries(byModel).reduce<CostEstimate>(
+    (estimate, [model, usage]) => {
+      const price = findModelPrice(model, table);
+      if (!price) {
+        return { ...estimate, unpriced: [...estimate.unpriced, model] };
+      }
+      return {
+        ...estimate,
+        cost: estimate.cost + estimateModelCost(usage, price),
+      };
+    },
+    { cost: 0, unpriced: [] }
+  );
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  if (cost < 0.01) return "<$0.01";
+  return `$${cost.toFixed(2)}`;
+}